@@ -0,0 +1,243 @@
+import { existsSync } from 'fs';
+
+import type { BuildConfig, ConfigFile, ConfigSource } from '../types/index.js';
+import { DEFAULT_CONFIG } from '../types/index.js';
+import { getFlagValue, hasFlag } from '../utils/args.js';
+import { loadJson } from '../utils/json.js';
+import { formatTable } from '../utils/table.js';
+import { retargetUrl } from '../utils/urls.js';
+
+/**
+ * Default project config file, used when present
+ */
+export const DEFAULT_CONFIG_FILE = './build.config.json';
+
+/**
+ * Prefix of the environment variables that override config values
+ */
+const ENV_PREFIX = 'GAMEHUB_';
+
+/**
+ * Short flags for frequently overridden values
+ */
+const FLAG_ALIASES: Record<string, keyof BuildConfig> = {
+  '--release': 'githubRelease',
+  '--repo': 'githubRepo',
+};
+
+/**
+ * Thrown when the config file, profile or an override cannot be used
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Resolved config with the source of each value
+ */
+export interface ResolvedConfig {
+  config: BuildConfig;
+  sources: Record<keyof BuildConfig, ConfigSource>;
+  file: string | null; // Config file that was loaded
+  profile: string | null;
+}
+
+/**
+ * "outputDir" -> "--output-dir"
+ */
+export function toFlagName(key: string): string {
+  return `--${key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+}
+
+/**
+ * "outputDir" -> "GAMEHUB_OUTPUT_DIR"
+ */
+export function toEnvName(key: string): string {
+  return ENV_PREFIX + key.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase();
+}
+
+/**
+ * Parse a string override into the type of the config value
+ */
+function parseValue(key: keyof BuildConfig, raw: string, origin: string): BuildConfig[keyof BuildConfig] {
+  const fallback = DEFAULT_CONFIG[key];
+
+  if (typeof fallback === 'boolean') {
+    if (/^(true|1|yes)$/i.test(raw)) return true;
+    if (/^(false|0|no)$/i.test(raw)) return false;
+    throw new ConfigError(`${origin}: expected true or false, got "${raw}"`);
+  }
+  if (typeof fallback === 'number') {
+    if (!/^[1-9][0-9]*$/.test(raw)) {
+      throw new ConfigError(`${origin}: expected a positive integer, got "${raw}"`);
+    }
+    return Number(raw);
+  }
+  if (Array.isArray(fallback)) {
+    return raw.split(',').map((item) => item.trim()).filter(Boolean);
+  }
+  if (key === 'timestamp') {
+    // An empty timestamp means "use the current time"
+    return raw === '' ? null : raw;
+  }
+  return raw;
+}
+
+// Lowest first; a value only follows another one set at a higher level
+const SOURCE_ORDER: ConfigSource[] = ['default', 'file', 'profile', 'env', 'flag'];
+
+/**
+ * Download base of a GitHub release, e.g. https://github.com/<repo>/releases/download/<release>
+ */
+export function getReleaseBaseUrl(repo: string, release: string): string {
+  return `https://github.com/${repo}/releases/download/${release}`;
+}
+
+/**
+ * Point a config at another CDN base; only the new base's host stays allowed
+ */
+function retargetConfig(config: BuildConfig, cdnBaseUrl: string): Partial<BuildConfig> {
+  return {
+    cdnBaseUrl,
+    logoUrl: retargetUrl(config.logoUrl, config.dataCdnBaseUrl, cdnBaseUrl),
+    allowedHosts: [new URL(cdnBaseUrl).host],
+  };
+}
+
+/**
+ * Resolve the build config
+ *
+ * Precedence, lowest first: DEFAULT_CONFIG, the config file (`--config`,
+ * GAMEHUB_CONFIG, or ./build.config.json when present), the selected profile
+ * (`--profile` or GAMEHUB_PROFILE), SOURCE_DATE_EPOCH and GAMEHUB_* environment variables, and
+ * command-line flags (`--output-dir`, `--timestamp`, `--release`, ...),
+ * with `--cdn-base` and `--allow-host` applied last. A release or repo set
+ * at a higher level than `cdnBaseUrl` moves it to that release's download URL.
+ */
+export function resolveConfig(args: string[], env: NodeJS.ProcessEnv = process.env): ResolvedConfig {
+  const keys = Object.keys(DEFAULT_CONFIG) as (keyof BuildConfig)[];
+  const config: BuildConfig = { ...DEFAULT_CONFIG };
+  const sources = Object.fromEntries(keys.map((key) => [key, 'default'])) as Record<keyof BuildConfig, ConfigSource>;
+
+  const apply = (overrides: Partial<BuildConfig>, source: ConfigSource) => {
+    for (const key of keys) {
+      if (overrides[key] !== undefined) {
+        Object.assign(config, { [key]: overrides[key] });
+        sources[key] = source;
+      }
+    }
+  };
+
+  // Config file
+  const explicitFile = getFlagValue(args, '--config') ?? env[`${ENV_PREFIX}CONFIG`];
+  const file = explicitFile ?? (existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : null);
+  if (explicitFile && !existsSync(explicitFile)) {
+    throw new ConfigError(`Config file not found: ${explicitFile}`);
+  }
+  let fileConfig: ConfigFile = {};
+  if (file) {
+    try {
+      fileConfig = loadJson<ConfigFile>(file, 'build.config.schema.json');
+    } catch (e) {
+      throw new ConfigError(`Cannot load config file: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  const { $schema: _schema, profiles = {}, ...fileOverrides } = fileConfig;
+  apply(fileOverrides, 'file');
+
+  // Profile
+  const profile = getFlagValue(args, '--profile') ?? env[`${ENV_PREFIX}PROFILE`] ?? null;
+  if (profile !== null) {
+    if (!profiles[profile]) {
+      const known = Object.keys(profiles);
+      throw new ConfigError(
+        `Unknown profile "${profile}"${known.length > 0 ? ` (available: ${known.join(', ')})` : ' (no profiles defined)'}`
+      );
+    }
+    apply(profiles[profile], 'profile');
+  }
+
+  // Environment variables
+  const fromEnv: Partial<Record<keyof BuildConfig, unknown>> = {};
+  // SOURCE_DATE_EPOCH (reproducible builds) sets the timestamp unless GAMEHUB_TIMESTAMP does
+  const sourceDateEpoch = env.SOURCE_DATE_EPOCH;
+  if (sourceDateEpoch !== undefined && sourceDateEpoch !== '') {
+    if (!/^\d+$/.test(sourceDateEpoch)) {
+      throw new ConfigError(`SOURCE_DATE_EPOCH: expected a Unix timestamp, got "${sourceDateEpoch}"`);
+    }
+    fromEnv.timestamp = sourceDateEpoch;
+  }
+  for (const key of keys) {
+    const name = toEnvName(key);
+    if (env[name] !== undefined) {
+      fromEnv[key] = parseValue(key, env[name]!, name);
+    }
+  }
+  apply(fromEnv as Partial<BuildConfig>, 'env');
+
+  // Command-line flags
+  const fromFlags: Partial<Record<keyof BuildConfig, unknown>> = {};
+  const flagNames: [string, keyof BuildConfig][] = [
+    ...keys.map((key): [string, keyof BuildConfig] => [toFlagName(key), key]),
+    ...Object.entries(FLAG_ALIASES),
+  ];
+  for (const [flag, key] of flagNames) {
+    let value = getFlagValue(args, flag);
+    // A bare boolean flag (e.g. `build --download-missing --check`) means true
+    if (typeof DEFAULT_CONFIG[key] === 'boolean' && hasFlag(args, flag) && (value === undefined || value.startsWith('--'))) {
+      value = 'true';
+    }
+    if (value !== undefined) {
+      fromFlags[key] = parseValue(key, value, flag);
+    }
+  }
+  apply(fromFlags as Partial<BuildConfig>, 'flag');
+
+  // A release or repo set above cdnBaseUrl (e.g. `--release` over the default) moves the CDN base to it
+  const releaseSource = [sources.githubRepo, sources.githubRelease].sort(
+    (a, b) => SOURCE_ORDER.indexOf(b) - SOURCE_ORDER.indexOf(a)
+  )[0];
+  const releaseBase = getReleaseBaseUrl(config.githubRepo, config.githubRelease);
+  if (
+    SOURCE_ORDER.indexOf(releaseSource) > SOURCE_ORDER.indexOf(sources.cdnBaseUrl) &&
+    releaseBase !== config.cdnBaseUrl
+  ) {
+    apply({ cdnBaseUrl: releaseBase }, releaseSource);
+  }
+
+  // --cdn-base: publish every asset URL under another base (self-hosted mirrors)
+  const cdnBase = getFlagValue(args, '--cdn-base');
+  if (cdnBase !== undefined) {
+    if (!/^https?:\/\/[^/]+/i.test(cdnBase)) {
+      throw new ConfigError(`--cdn-base must be an http(s) URL, got "${cdnBase}"`);
+    }
+    apply(retargetConfig(config, cdnBase.replace(/\/+$/, '')), 'flag');
+  }
+
+  // --allow-host: allow more hosts on top of the resolved list
+  const extraHosts = getFlagValue(args, '--allow-host');
+  if (extraHosts !== undefined) {
+    const hosts = parseValue('allowedHosts', extraHosts, '--allow-host') as string[];
+    apply({ allowedHosts: [...config.allowedHosts, ...hosts] }, 'flag');
+  }
+
+  return { config, sources, file, profile };
+}
+
+/**
+ * Format the resolved config as a table of key, value and source
+ */
+export function formatResolvedConfig(resolved: ResolvedConfig, indent = ''): string {
+  const rows = (Object.keys(resolved.config) as (keyof BuildConfig)[]).map((key) => {
+    const value = resolved.config[key];
+    return [key, Array.isArray(value) ? value.join(', ') : String(value), resolved.sources[key]];
+  });
+
+  const header =
+    `${indent}Config file: ${resolved.file ?? '(none)'}\n` +
+    `${indent}Profile: ${resolved.profile ?? '(none)'}\n\n`;
+  return header + formatTable(['Key', 'Value', 'Source'], rows, indent);
+}
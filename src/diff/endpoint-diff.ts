@@ -0,0 +1,305 @@
+import { existsSync, lstatSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import { formatJson, withoutTime } from '../utils/json.js';
+import { formatTable, truncate } from '../utils/table.js';
+
+/**
+ * A single changed field within an entry
+ */
+export interface FieldChange {
+  field: string; // Path relative to the entry, e.g. "file_md5" or "sub_data.sub_file_md5"
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Difference for one entry (component, container, category...) of an endpoint
+ */
+export interface EntryDiff {
+  key: string; // e.g. "data.list[id=24]" or "data" for top-level fields
+  label: string; // Human-readable identity, e.g. "#24 dxvk-1.10.3"
+  status: 'added' | 'removed' | 'changed';
+  changes: FieldChange[];
+}
+
+/**
+ * Difference for one endpoint file
+ */
+export interface EndpointDiff {
+  endpoint: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  entries: EntryDiff[];
+}
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+function isObject(value: unknown): value is Record<string, Json> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check whether `field` is present and unique in every element of an array of objects
+ */
+function isIdentityField(items: Json[], field: string): boolean {
+  if (!items.every(isObject)) {
+    return false;
+  }
+  const values = items.map((item) => (item as Record<string, Json>)[field]);
+  return values.every((v) => v !== undefined && v !== null) && new Set(values).size === values.length;
+}
+
+/**
+ * Pick the field that identifies elements on both sides of an array comparison, if any
+ * Prefers `id`, then `name`, then `type`
+ */
+function identityField(before: Json[], after: Json[]): string | null {
+  if (before.length === 0 && after.length === 0) {
+    return null;
+  }
+
+  for (const field of ['id', 'name', 'type']) {
+    if (isIdentityField(before, field) && isIdentityField(after, field)) {
+      return field;
+    }
+  }
+
+  return null;
+}
+
+function describeEntry(item: Json, field: string): string {
+  const record = item as Record<string, Json>;
+  const id = record[field];
+  const name = field !== 'name' && typeof record.name === 'string' ? ` ${record.name}` : '';
+  return field === 'id' ? `#${id}${name}` : `${field}=${id}${name}`;
+}
+
+/**
+ * Collect field-level changes between two values
+ */
+function collectFieldChanges(before: Json | undefined, after: Json | undefined, prefix: string, out: FieldChange[]): void {
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      collectFieldChanges(before[key], after[key], prefix ? `${prefix}.${key}` : key, out);
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    out.push({ field: prefix, before: before ?? null, after: after ?? null });
+  }
+}
+
+/**
+ * Walk two documents and record entry diffs
+ * Arrays of objects with an identity field are matched element by element;
+ * any other value is compared as a field of the enclosing entry
+ */
+function walk(
+  before: Json | undefined,
+  after: Json | undefined,
+  path: string,
+  entries: EntryDiff[],
+  entryKey: string,
+  entryLabel: string,
+  fieldPrefix: string
+): void {
+  const pushChanges = (changes: FieldChange[]) => {
+    if (changes.length === 0) return;
+    let entry = entries.find((e) => e.key === entryKey);
+    if (!entry) {
+      entry = { key: entryKey, label: entryLabel, status: 'changed', changes: [] };
+      entries.push(entry);
+    }
+    entry.changes.push(...changes);
+  };
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const field = identityField(before, after);
+
+    if (field) {
+      const beforeById = new Map(before.map((item) => [(item as Record<string, Json>)[field], item]));
+      const afterById = new Map(after.map((item) => [(item as Record<string, Json>)[field], item]));
+
+      for (const [id, item] of beforeById) {
+        const key = `${path}[${field}=${id}]`;
+        if (!afterById.has(id)) {
+          entries.push({ key, label: describeEntry(item, field), status: 'removed', changes: [] });
+        } else {
+          walk(item, afterById.get(id), key, entries, key, describeEntry(afterById.get(id)!, field), '');
+        }
+      }
+      for (const [id, item] of afterById) {
+        if (!beforeById.has(id)) {
+          const key = `${path}[${field}=${id}]`;
+          entries.push({ key, label: describeEntry(item, field), status: 'added', changes: [] });
+        }
+      }
+      return;
+    }
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      walk(
+        before[key],
+        after[key],
+        path ? `${path}.${key}` : key,
+        entries,
+        entryKey,
+        entryLabel,
+        fieldPrefix ? `${fieldPrefix}.${key}` : key
+      );
+    }
+    return;
+  }
+
+  const changes: FieldChange[] = [];
+  collectFieldChanges(before, after, fieldPrefix, changes);
+  pushChanges(changes);
+}
+
+/**
+ * Semantically compare two versions of an endpoint, ignoring the volatile `time` field
+ */
+export function diffEndpoint(endpoint: string, before: unknown, after: unknown): EndpointDiff {
+  if (before === undefined) {
+    return { endpoint, status: 'added', entries: [] };
+  }
+  if (after === undefined) {
+    return { endpoint, status: 'removed', entries: [] };
+  }
+
+  const entries: EntryDiff[] = [];
+  walk(withoutTime(before) as Json, withoutTime(after) as Json, '', entries, '', '(endpoint)', '');
+
+  return { endpoint, status: entries.length === 0 ? 'unchanged' : 'changed', entries };
+}
+
+/**
+ * Read a committed endpoint file, or undefined when it does not exist
+ */
+export function readCommittedEndpoint(baseDir: string, endpoint: string): unknown {
+  const path = join(baseDir, endpoint);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+/**
+ * Compare generated endpoints against the files committed under `baseDir`
+ * Committed files in `generatedDirs` that are no longer generated are reported as removed
+ */
+export function diffOutputs(
+  outputs: Map<string, unknown>,
+  baseDir: string,
+  generatedDirs: string[] = []
+): EndpointDiff[] {
+  const diffs: EndpointDiff[] = [];
+
+  for (const [endpoint, generated] of outputs) {
+    const committed = readCommittedEndpoint(baseDir, endpoint);
+    diffs.push(diffEndpoint(endpoint, committed, generated));
+  }
+
+  for (const endpoint of findOrphanedOutputs(outputs.keys(), baseDir, generatedDirs)) {
+    diffs.push({ endpoint, status: 'removed', entries: [] });
+  }
+
+  return diffs;
+}
+
+/**
+ * List generated files whose committed copy is missing or differs (ignoring `time`)
+ */
+export function findStaleOutputs(contents: Map<string, string>, baseDir: string): string[] {
+  const stale: string[] = [];
+
+  for (const [endpoint, content] of contents) {
+    let committed: unknown;
+    try {
+      committed = readCommittedEndpoint(baseDir, endpoint);
+    } catch {
+      committed = undefined; // Unparseable committed file is stale
+    }
+
+    const expected = formatJson(withoutTime(JSON.parse(content)));
+    if (committed === undefined || formatJson(withoutTime(committed)) !== expected) {
+      stale.push(endpoint);
+    }
+  }
+
+  return stale;
+}
+
+/**
+ * List committed files under the generated directories that the build did not produce
+ * `dirs` are relative to `baseDir`; every file in them is expected to be generated
+ */
+export function findOrphanedOutputs(paths: Iterable<string>, baseDir: string, dirs: string[]): string[] {
+  const generated = new Set(paths);
+  const orphaned: string[] = [];
+
+  const walk = (dir: string) => {
+    const fullDir = join(baseDir, dir);
+    if (!existsSync(fullDir)) return;
+    for (const name of readdirSync(fullDir).sort()) {
+      const path = `${dir}/${name}`;
+      if (lstatSync(join(baseDir, path)).isDirectory()) {
+        walk(path);
+      } else if (!generated.has(path)) {
+        orphaned.push(path);
+      }
+    }
+  };
+
+  for (const dir of dirs) {
+    walk(dir);
+  }
+  return orphaned;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return truncate(typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+/**
+ * Format endpoint diffs as a human-readable table
+ */
+export function formatDiffTable(diffs: EndpointDiff[]): string {
+  const rows: string[][] = [];
+
+  for (const diff of diffs) {
+    if (diff.status === 'added' || diff.status === 'removed') {
+      rows.push([diff.endpoint, '(endpoint)', diff.status, '', '', '']);
+      continue;
+    }
+
+    for (const entry of diff.entries) {
+      if (entry.status !== 'changed') {
+        rows.push([diff.endpoint, entry.label, entry.status, '', '', '']);
+        continue;
+      }
+      for (const change of entry.changes) {
+        rows.push([
+          diff.endpoint,
+          truncate(entry.label, 40),
+          entry.status,
+          change.field,
+          formatValue(change.before),
+          formatValue(change.after),
+        ]);
+      }
+    }
+  }
+
+  if (rows.length === 0) {
+    return 'No differences';
+  }
+
+  return formatTable(['Endpoint', 'Entry', 'Change', 'Field', 'Before', 'After'], rows);
+}
@@ -0,0 +1,47 @@
+import type { ComponentRegistry } from '../registry/registry.js';
+import type { AllComponentListFile } from '../types/outputs.js';
+import { readCommittedEndpoint } from './endpoint-diff.js';
+
+/**
+ * A component whose version_code went down compared to the committed outputs
+ */
+export interface VersionCodeDowngrade {
+  id: number;
+  name: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * Compare version codes with the committed simulator/v2/getAllComponentList
+ * An upstream XML swap that lowers a version_code stops the app from offering the update
+ */
+export function findVersionCodeDowngrades(
+  registry: ComponentRegistry,
+  baseDir: string
+): VersionCodeDowngrade[] {
+  let committed: AllComponentListFile | undefined;
+  try {
+    committed = readCommittedEndpoint(baseDir, 'simulator/v2/getAllComponentList') as
+      | AllComponentListFile
+      | undefined;
+  } catch {
+    return [];
+  }
+
+  const downgrades: VersionCodeDowngrade[] = [];
+
+  for (const entry of committed?.data?.list ?? []) {
+    const component = registry.getById(entry.id);
+    if (component && component.version_code < entry.version_code) {
+      downgrades.push({
+        id: component.id,
+        name: component.name,
+        before: entry.version_code,
+        after: component.version_code,
+      });
+    }
+  }
+
+  return downgrades;
+}
@@ -0,0 +1,291 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import type { Component, ComponentTypeValue, Defaults, DevicePreset } from '../types/index.js';
+import { COMPONENT_TYPE_META, ComponentType } from '../types/index.js';
+import { parseXmlFile } from '../parsers/xml-parser.js';
+import type { XmlDiagnostic, XmlParseOptions, XmlParseResult } from '../parsers/xml-parser.js';
+import type { ComponentOverride } from '../registry/overrides.js';
+import type { FieldChange } from './endpoint-diff.js';
+import { formatMarkdownTable, truncate } from '../utils/table.js';
+
+/**
+ * Kind of change to a component present in both XML files
+ */
+export type ComponentChangeKind = 'renamed' | 'retyped' | 'rehashed' | 'updated';
+
+/**
+ * Change to one component, matched by ID
+ */
+export interface ComponentChange {
+  id: number;
+  name: string;
+  type: ComponentTypeValue; // Type in the new XML, or the old one for removed components
+  version: string;
+  status: 'added' | 'removed' | 'changed';
+  kinds: ComponentChangeKind[]; // Empty unless status is "changed"
+  changes: FieldChange[];
+}
+
+/**
+ * A data file reference the new XML breaks
+ */
+export interface ReferenceIssue {
+  file: 'defaults.json' | 'device_presets.json' | 'overrides.json';
+  key: string; // e.g. "dxvk", "qualcomm" (preset name) or the overridden ID
+  id: number;
+  reason: string;
+}
+
+/**
+ * Data files that reference XML components by ID
+ */
+export interface XmlReferences {
+  defaults: Defaults;
+  presets: DevicePreset[];
+  overrides: Record<string, ComponentOverride>;
+}
+
+/**
+ * Changes between two XML files, grouped by component type
+ */
+export interface XmlChangelog {
+  before: string; // Source descriptions, e.g. "HEAD:data/sp_winemu_all_components12.xml"
+  after: string;
+  groups: { type: ComponentTypeValue; category: string; changes: ComponentChange[] }[];
+  referenceIssues: ReferenceIssue[];
+  diagnostics: XmlDiagnostic[]; // Skipped or salvaged entries of the new XML
+}
+
+// Fields compared between versions of a component; file_md5 and file_size make it "rehashed"
+const COMPARED_FIELDS: (keyof Component)[] = [
+  'name',
+  'type',
+  'version',
+  'version_code',
+  'file_name',
+  'file_md5',
+  'file_size',
+  'download_url',
+  'logo',
+  'display_name',
+  'blurb',
+  'is_steam',
+  'is_base',
+  'is_dep',
+  'framework',
+  'framework_type',
+  'sub_data',
+  'upgrade_msg',
+  'dependencies',
+];
+
+// Component type each defaults.json component reference must keep
+const DEFAULT_TYPES: Partial<Record<keyof Defaults, ComponentTypeValue>> = {
+  dxvk: ComponentType.DXVK,
+  vkd3d: ComponentType.VKD3D,
+  steamClient: ComponentType.STEAM,
+};
+
+/**
+ * Parse an XML file from disk or from git
+ * `spec` is a path, or `<revision>:<path>` as accepted by `git show`
+ */
+export function parseXmlRevision(spec: string, options: XmlParseOptions): XmlParseResult {
+  if (!/^[^:]+:./.test(spec) || /^[A-Za-z]:[\\/]/.test(spec)) {
+    return parseXmlFile(spec, options);
+  }
+
+  const content = execFileSync('git', ['show', spec], {
+    encoding: 'utf-8',
+    maxBuffer: 64 * 1024 * 1024,
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  const dir = mkdtempSync(join(tmpdir(), 'xml-changelog-'));
+  try {
+    const path = join(dir, 'components.xml');
+    writeFileSync(path, content);
+    return parseXmlFile(path, options);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function compareComponent(before: Component, after: Component): ComponentChange | null {
+  const changes: FieldChange[] = [];
+  for (const field of COMPARED_FIELDS) {
+    if (JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) {
+      changes.push({ field, before: before[field] ?? null, after: after[field] ?? null });
+    }
+  }
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const changed = new Set(changes.map((change) => change.field));
+  const kinds: ComponentChangeKind[] = [];
+  if (changed.has('name')) kinds.push('renamed');
+  if (changed.has('type')) kinds.push('retyped');
+  if (changed.has('file_md5') || changed.has('file_size')) kinds.push('rehashed');
+  if ([...changed].some((field) => !['name', 'type', 'file_md5', 'file_size'].includes(field))) {
+    kinds.push('updated');
+  }
+
+  return { ...describe(after), status: 'changed', kinds, changes };
+}
+
+function describe(component: Component): Pick<ComponentChange, 'id' | 'name' | 'type' | 'version'> {
+  return { id: component.id, name: component.name, type: component.type, version: component.version };
+}
+
+/**
+ * Why a reference to `id` breaks with the new XML, or null when it still holds
+ * `type` is the type the reference needs; without it, any change of type breaks it
+ */
+function checkReference(
+  id: number,
+  beforeById: Map<number, Component>,
+  afterById: Map<number, Component>,
+  type: ComponentTypeValue | null,
+  otherIds: Set<number>
+): string | null {
+  const component = afterById.get(id);
+  const previous = beforeById.get(id);
+  if (!component) {
+    if (otherIds.has(id)) return null;
+    return previous ? `component ${id} (${previous.name}) was removed` : `component ${id} does not exist`;
+  }
+
+  const expected = type ?? previous?.type;
+  if (expected !== undefined && component.type !== expected) {
+    return `component ${id} (${component.name}) is now ${COMPONENT_TYPE_META[component.type].displayName}, expected ${COMPONENT_TYPE_META[expected].displayName}`;
+  }
+  return null;
+}
+
+/**
+ * Compare the components of two XML files by ID
+ * `otherIds` are components defined elsewhere (custom components), which
+ * satisfy defaults.json and device preset references the XML does not.
+ * Overrides only apply to XML components, so they never count for them.
+ */
+export function diffXmlComponents(
+  before: Component[],
+  after: Component[],
+  references: XmlReferences,
+  otherIds: Set<number> = new Set()
+): Pick<XmlChangelog, 'groups' | 'referenceIssues'> {
+  const beforeById = new Map(before.map((component) => [component.id, component]));
+  const afterById = new Map(after.map((component) => [component.id, component]));
+  const changes: ComponentChange[] = [];
+
+  for (const component of after) {
+    const previous = beforeById.get(component.id);
+    if (!previous) {
+      changes.push({ ...describe(component), status: 'added', kinds: [], changes: [] });
+    } else {
+      const change = compareComponent(previous, component);
+      if (change) changes.push(change);
+    }
+  }
+  for (const component of before) {
+    if (!afterById.has(component.id)) {
+      changes.push({ ...describe(component), status: 'removed', kinds: [], changes: [] });
+    }
+  }
+
+  const groups = (Object.keys(COMPONENT_TYPE_META).map(Number) as ComponentTypeValue[])
+    .map((type) => ({
+      type,
+      category: COMPONENT_TYPE_META[type].displayName,
+      changes: changes.filter((change) => change.type === type).sort((a, b) => a.id - b.id),
+    }))
+    .filter((group) => group.changes.length > 0);
+
+  const referenceIssues: ReferenceIssue[] = [];
+  const check = (
+    file: ReferenceIssue['file'],
+    key: string,
+    id: number,
+    type: ComponentTypeValue | null,
+    ids: Set<number>
+  ) => {
+    const reason = checkReference(id, beforeById, afterById, type, ids);
+    if (reason) referenceIssues.push({ file, key, id, reason });
+  };
+
+  for (const [key, type] of Object.entries(DEFAULT_TYPES) as [keyof Defaults, ComponentTypeValue][]) {
+    check('defaults.json', key, references.defaults[key], type, otherIds);
+  }
+  for (const preset of references.presets) {
+    for (const id of preset.componentIds) {
+      check('device_presets.json', preset.name, id, null, otherIds);
+    }
+  }
+  for (const key of Object.keys(references.overrides)) {
+    check('overrides.json', key, Number(key), null, new Set());
+  }
+
+  return { groups, referenceIssues };
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return truncate(typeof value === 'string' ? value : JSON.stringify(value), 40);
+}
+
+function describeChange(change: ComponentChange): string {
+  return change.changes
+    .map((field) =>
+      field.field === 'type'
+        ? `type: ${COMPONENT_TYPE_META[field.before as ComponentTypeValue]?.displayName ?? field.before} → ${COMPONENT_TYPE_META[field.after as ComponentTypeValue]?.displayName ?? field.after}`
+        : `${field.field}: ${formatValue(field.before)} → ${formatValue(field.after)}`
+    )
+    .join('<br>');
+}
+
+/**
+ * Format a changelog as Markdown for a pull request
+ */
+export function formatXmlChangelog(changelog: XmlChangelog): string {
+  const all = changelog.groups.flatMap((group) => group.changes);
+  const count = (status: ComponentChange['status']) => all.filter((change) => change.status === status).length;
+  const lines = [
+    '## Upstream XML changes',
+    '',
+    `\`${changelog.before}\` → \`${changelog.after}\`: ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed`,
+  ];
+
+  if (changelog.referenceIssues.length > 0) {
+    lines.push('', '### ⚠ Broken data references', '');
+    for (const issue of changelog.referenceIssues) {
+      lines.push(`- \`${issue.file}\` \`${issue.key}\`: ${issue.reason}`);
+    }
+  }
+
+  for (const group of changelog.groups) {
+    const rows = group.changes.map((change) => [
+      change.status === 'changed' ? change.kinds.join(', ') : change.status,
+      String(change.id),
+      change.name,
+      change.status === 'changed' ? describeChange(change) : `version ${change.version}`,
+    ]);
+    lines.push('', `### ${group.category}`, '', formatMarkdownTable(['Change', 'ID', 'Name', 'Details'], rows));
+  }
+
+  if (changelog.diagnostics.length > 0) {
+    lines.push('', '### Parser diagnostics', '');
+    for (const diagnostic of changelog.diagnostics) {
+      const action = diagnostic.kept ? 'kept' : 'skipped';
+      lines.push(`- line ${diagnostic.line} \`${diagnostic.entry}\` ${action}: ${diagnostic.reason}`);
+    }
+  }
+
+  if (all.length === 0 && changelog.referenceIssues.length === 0) {
+    lines.push('', 'No component changes.');
+  }
+
+  return lines.join('\n');
+}
@@ -5,13 +5,15 @@ import type { Component } from '../types/index.js';
 /**
  * Convert a Component to DownloadEntry format
  * Note: downloads files do NOT have id, logo, display_name, version_code, is_ui
+ * file_sha256 is only present once recorded in data/checksums.json
  * Keys must be in alphabetical order to match original files
  */
-function toDownloadEntry(component: Component): DownloadEntry {
+function toDownloadEntry(component: Component, sha256: string | undefined): DownloadEntry {
   return {
     download_url: component.download_url,
     file_md5: component.file_md5,
     file_name: component.file_name,
+    ...(sha256 ? { file_sha256: sha256 } : {}),
     file_size: component.file_size,
     name: component.name,
     type: component.type,
@@ -31,7 +33,9 @@ export function generateDownloads(registry: ComponentRegistry): DownloadsFile {
     return a.name.localeCompare(b.name);
   });
 
-  const downloads = sorted.map(toDownloadEntry);
+  const downloads = sorted.map((component) =>
+    toDownloadEntry(component, registry.getSha256(component.file_md5))
+  );
 
   return {
     code: 200,
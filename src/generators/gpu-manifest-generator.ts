@@ -0,0 +1,73 @@
+import type { ComponentRegistry } from '../registry/registry.js';
+import type { GpuFamily } from '../registry/gpu-ranges.js';
+import { supportsFamily } from '../registry/gpu-ranges.js';
+import type { Component } from '../types/index.js';
+import type { GpuManifestFile, GpuManifestComponent } from '../types/outputs.js';
+import { COMPONENT_TYPE_META, ComponentType } from '../types/index.js';
+import { getIsUi } from '../utils/component.js';
+
+/**
+ * Convert a Component to GpuManifestComponent format
+ * Keys must be in alphabetical order to match the other manifests
+ */
+function toGpuManifestComponent(component: Component): GpuManifestComponent {
+  return {
+    display_name: component.display_name ?? '',
+    download_url: component.download_url,
+    file_md5: component.file_md5,
+    file_name: component.file_name,
+    file_size: component.file_size,
+    gpu_range: component.gpu_range ?? '',
+    id: component.id,
+    is_ui: getIsUi(component),
+    logo: component.logo,
+    name: component.name,
+    type: component.type,
+    version: component.version,
+    version_code: component.version_code,
+  };
+}
+
+/**
+ * Generate the driver manifest for one GPU family
+ * Drivers without a declared range are kept, since they may still work
+ */
+export function generateGpuManifest(registry: ComponentRegistry, family: GpuFamily): GpuManifestFile {
+  const meta = COMPONENT_TYPE_META[ComponentType.GPU_DRIVERS];
+  const drivers = registry.getByType(ComponentType.GPU_DRIVERS).filter((component) => {
+    const supported = registry.getSupportedGpuModels(component);
+    return supported === null || supportsFamily(supported, family);
+  });
+  const components = registry.sortByIdDescending(drivers).map(toGpuManifestComponent);
+
+  return {
+    code: 200,
+    msg: 'Success',
+    data: {
+      type: ComponentType.GPU_DRIVERS,
+      type_name: meta.name,
+      display_name: `${meta.displayName} for ${family.name}`,
+      gpu_family: family.id,
+      gpu_models: family.models.map((model) => model.name),
+      total: components.length,
+      components,
+    },
+  };
+}
+
+/**
+ * Generate the driver manifests for every GPU family, keyed by family ID
+ * Nothing is emitted until a driver declares a range, as every family manifest would list every driver
+ */
+export function generateGpuManifests(registry: ComponentRegistry): Map<string, GpuManifestFile> {
+  const manifests = new Map<string, GpuManifestFile>();
+  if (Object.keys(registry.gpuRanges).length === 0) {
+    return manifests;
+  }
+
+  for (const family of registry.gpuFamilies) {
+    manifests.set(family.id, generateGpuManifest(registry, family));
+  }
+
+  return manifests;
+}
@@ -1,4 +1,9 @@
 export * from './manifest-generator.js';
 export * from './index-generator.js';
 export * from './downloads-generator.js';
+export * from './latest-generator.js';
+export * from './retired-generator.js';
+export * from './gpu-manifest-generator.js';
 export * from './simulator-generators.js';
+export * from './static-generators.js';
+export * from './outputs-generator.js';
@@ -0,0 +1,57 @@
+import type { ComponentRegistry } from '../registry/registry.js';
+import type { ComponentTypeValue, Component } from '../types/index.js';
+import type { LatestFile, LatestFamilyEntry, LatestComponentEntry } from '../types/outputs.js';
+import { COMPONENT_TYPE_META } from '../types/index.js';
+
+/**
+ * Convert a Component to LatestComponentEntry format
+ * Keys must be in alphabetical order to match the other components/ files
+ */
+function toLatestComponentEntry(component: Component): LatestComponentEntry {
+  return {
+    display_name: component.display_name ?? '',
+    download_url: component.download_url,
+    file_md5: component.file_md5,
+    file_name: component.file_name,
+    file_size: component.file_size,
+    id: component.id,
+    name: component.name,
+    version: component.version,
+    version_code: component.version_code,
+  };
+}
+
+/**
+ * Generate the components/latest file: the newest member of each family, per type
+ */
+export function generateLatest(registry: ComponentRegistry): LatestFile {
+  const families: LatestFamilyEntry[] = [];
+
+  for (let type = 1; type <= 7; type++) {
+    const typeValue = type as ComponentTypeValue;
+    const meta = COMPONENT_TYPE_META[typeValue];
+
+    for (const [family, members] of registry.getFamilies(typeValue)) {
+      // Deprecated members are only suggested when the whole family is deprecated
+      const latest = members.find((member) => member.lifecycle !== 'deprecated') ?? members[0];
+
+      // Keys in alphabetical order
+      families.push({
+        family,
+        latest: toLatestComponentEntry(latest),
+        members: members.length,
+        type: typeValue,
+        type_name: meta.name,
+      });
+    }
+  }
+
+  return {
+    code: 200,
+    msg: 'Success',
+    data: {
+      families, // Keys in alphabetical order
+      total: families.length,
+    },
+  };
+}
@@ -2,6 +2,7 @@ import type { ComponentRegistry } from '../registry/registry.js';
 import type { ComponentTypeValue, Component } from '../types/index.js';
 import type { ManifestFile, ManifestComponent } from '../types/outputs.js';
 import { COMPONENT_TYPE_META } from '../types/index.js';
+import { getIsUi } from '../utils/component.js';
 
 /**
  * Convert a Component to ManifestComponent format
@@ -15,7 +16,7 @@ function toManifestComponent(component: Component): ManifestComponent {
     file_name: component.file_name,
     file_size: component.file_size,
     id: component.id,
-    is_ui: 1,
+    is_ui: getIsUi(component),
     logo: component.logo,
     name: component.name,
     type: component.type,
@@ -0,0 +1,134 @@
+import type { ComponentRegistry } from '../registry/registry.js';
+import { ComponentType } from '../types/index.js';
+import type { RouteMapFile } from '../types/outputs.js';
+import { generateAllManifests } from './manifest-generator.js';
+import { generateIndex } from './index-generator.js';
+import { generateDownloads } from './downloads-generator.js';
+import { generateLatest } from './latest-generator.js';
+import { generateRetired } from './retired-generator.js';
+import { generateGpuManifests } from './gpu-manifest-generator.js';
+import {
+  generateAllComponentList,
+  generateComponentList,
+  generateComponentListPages,
+  generateComponentListRoute,
+  generateContainerList,
+  generateDefaultComponent,
+  generateImagefsDetail,
+  generateExecuteScript,
+} from './simulator-generators.js';
+import { generateStaticEndpoints } from './static-generators.js';
+import { retargetUrls } from '../utils/urls.js';
+import { formatJson, withoutTime } from '../utils/json.js';
+import { readCommittedEndpoint } from '../diff/endpoint-diff.js';
+
+/**
+ * Output directories the build owns entirely
+ * A file in them that the build no longer generates (a page past the new end, the
+ * manifest of a removed GPU family, the script of a renamed device preset) is removed
+ * by the build, fails `build --check` and shows as removed in `diff`
+ */
+export const GENERATED_DIRS = ['components', 'simulator/executeScript', 'simulator/v2'];
+
+/**
+ * Generate every endpoint in memory
+ * Keys are output paths relative to the output directory, in write order
+ * URLs the data files hold under `dataCdnBaseUrl` are moved to `cdnBaseUrl`
+ */
+export function generateAllOutputs(
+  registry: ComponentRegistry,
+  timestamp: string
+): Map<string, unknown> {
+  const outputs = new Map<string, unknown>();
+
+  // Manifests
+  for (const [name, data] of generateAllManifests(registry)) {
+    outputs.set(`components/${name}`, data);
+  }
+
+  // Index
+  outputs.set('components/index', generateIndex(registry));
+
+  // Downloads
+  outputs.set('components/downloads', generateDownloads(registry));
+
+  // Latest member of each family
+  outputs.set('components/latest', generateLatest(registry));
+
+  // Retired IDs and their replacements
+  outputs.set('components/retired', generateRetired(registry));
+
+  // Driver manifests per GPU family
+  for (const [family, data] of generateGpuManifests(registry)) {
+    outputs.set(`components/drivers/${family}`, data);
+  }
+
+  // Simulator endpoints
+  outputs.set('simulator/v2/getAllComponentList', generateAllComponentList(registry, timestamp));
+  outputs.set('simulator/v2/getComponentList', generateComponentList(registry, ComponentType.BOX64_FEX, 1, timestamp));
+  outputs.set('simulator/v2/getContainerList', generateContainerList(registry, timestamp));
+  outputs.set('simulator/v2/getDefaultComponent', generateDefaultComponent(registry, timestamp));
+  outputs.set('simulator/v2/getImagefsDetail', generateImagefsDetail(registry, timestamp));
+
+  // getComponentList pages per type; routes.json maps the app's type/page queries to them
+  for (const [path, data] of generateComponentListPages(registry, timestamp)) {
+    outputs.set(path, data);
+  }
+  const routes: RouteMapFile = {
+    'simulator/v2/getComponentList': generateComponentListRoute(registry),
+  };
+  outputs.set('routes.json', routes);
+
+  // One execute script per device preset
+  for (const preset of registry.devicePresets) {
+    outputs.set(`simulator/executeScript/${preset.name}`, generateExecuteScript(registry, preset, timestamp));
+  }
+
+  // Static endpoints
+  for (const [path, data] of generateStaticEndpoints(registry, timestamp)) {
+    outputs.set(path, data);
+  }
+
+  const { dataCdnBaseUrl, cdnBaseUrl } = registry.config;
+  if (dataCdnBaseUrl !== cdnBaseUrl) {
+    for (const [path, data] of outputs) {
+      outputs.set(path, retargetUrls(data, dataCdnBaseUrl, cdnBaseUrl));
+    }
+  }
+
+  return outputs;
+}
+
+/**
+ * Give endpoints whose content (excluding `time`) matches the committed file
+ * the committed `time`, so rebuilding unchanged data produces no diff
+ * Returns the paths that kept their previous time
+ */
+export function keepUnchangedTimestamps(outputs: Map<string, unknown>, baseDir: string): string[] {
+  const kept: string[] = [];
+
+  for (const [path, data] of outputs) {
+    if (data === null || typeof data !== 'object' || !('time' in data)) {
+      continue;
+    }
+
+    let committed: unknown;
+    try {
+      committed = readCommittedEndpoint(baseDir, path);
+    } catch {
+      continue; // Unparseable committed file: treat as changed
+    }
+
+    const previousTime = (committed as { time?: unknown } | undefined)?.time;
+    if (typeof previousTime !== 'string') {
+      continue;
+    }
+
+    if (formatJson(withoutTime(committed)) === formatJson(withoutTime(data))) {
+      outputs.set(path, { ...data, time: previousTime });
+      kept.push(path);
+    }
+  }
+
+  return kept;
+}
@@ -0,0 +1,24 @@
+import type { ComponentRegistry } from '../registry/registry.js';
+import type { RetiredFile, RetiredEntry } from '../types/outputs.js';
+
+/**
+ * Generate the components/retired file: every retired ID and its replacement, by ID
+ * Clients use it to migrate saved configurations that still reference a retired ID
+ */
+export function generateRetired(registry: ComponentRegistry): RetiredFile {
+  // Keys in alphabetical order
+  const retired: RetiredEntry[] = registry.retired.map((entry) => ({
+    id: entry.id,
+    name: entry.name ?? '',
+    replacement: entry.replacement,
+  }));
+
+  return {
+    code: 200,
+    msg: 'Success',
+    data: {
+      retired,
+      total: retired.length,
+    },
+  };
+}
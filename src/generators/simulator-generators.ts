@@ -1,6 +1,14 @@
 import type { ComponentRegistry } from '../registry/registry.js';
-import type { Component, Container, Imagefs } from '../types/index.js';
-import { ComponentType } from '../types/index.js';
+import type {
+  Component,
+  ComponentTypeValue,
+  Container,
+  Imagefs,
+  DevicePreset,
+  ExecutionConfig,
+  ExecutionConfigOverrides,
+} from '../types/index.js';
+import { COMPONENT_TYPE_META, ComponentType } from '../types/index.js';
 import type {
   AllComponentListFile,
   AllComponentEntry,
@@ -15,8 +23,10 @@ import type {
   ExecuteComponent,
   ImagefsRef,
   ContainerRef,
+  QueryRoute,
 } from '../types/outputs.js';
 import { getTimestamp } from '../utils/json.js';
+import { getBaseType, getIsBase, getIsUi } from '../utils/component.js';
 
 /**
  * Convert Component to AllComponentEntry format
@@ -31,7 +41,7 @@ function toAllComponentEntry(component: Component): AllComponentEntry {
     file_name: component.file_name,
     file_size: component.file_size,
     id: component.id,
-    is_ui: 1,
+    is_ui: getIsUi(component),
     logo: component.logo,
     name: component.name,
     type: component.type,
@@ -111,7 +121,7 @@ function createEmptyComponent(): EmptyComponentEntry {
  */
 function toExecuteComponent(component: Component): ExecuteComponent {
   return {
-    base_type: 0,
+    base_type: getBaseType(component),
     blurb: component.blurb ?? '',
     display_name: component.display_name ?? '',
     download_url: component.download_url,
@@ -119,8 +129,8 @@ function toExecuteComponent(component: Component): ExecuteComponent {
     file_name: component.file_name,
     file_size: component.file_size,
     id: component.id,
-    is_base: 0,
-    is_ui: 1,
+    is_base: getIsBase(component),
+    is_ui: getIsUi(component),
     logo: component.logo,
     name: component.name,
     type: component.type,
@@ -202,26 +212,99 @@ export function generateAllComponentList(
 }
 
 /**
- * Generate simulator/v2/getComponentList (Type 1 only)
+ * Output path of one getComponentList page, e.g. simulator/v2/componentList/drivers/2
+ */
+function componentListPagePath(type: ComponentTypeValue, page: number): string {
+  return `simulator/v2/componentList/${COMPONENT_TYPE_META[type].name}/${page}`;
+}
+
+// Answers getComponentList requests for an unknown type or a page past the end
+const EMPTY_COMPONENT_LIST_PATH = 'simulator/v2/componentList/empty';
+
+/**
+ * Number of getComponentList pages of a type (at least one, possibly empty)
+ */
+function countComponentListPages(registry: ComponentRegistry, type: ComponentTypeValue): number {
+  return Math.max(1, Math.ceil(registry.getCountByType(type) / registry.config.componentListPageSize));
+}
+
+/**
+ * Generate one page of simulator/v2/getComponentList for a component type
+ * Pages are 1-based and hold `componentListPageSize` components, newest first
  */
 export function generateComponentList(
   registry: ComponentRegistry,
+  type: ComponentTypeValue = ComponentType.BOX64_FEX,
+  page = 1,
   timestamp?: string
 ): ComponentListFile {
-  const type1Components = registry.getByType(ComponentType.BOX64_FEX);
-  const sorted = registry.sortByIdDescending(type1Components);
-  const list = sorted.map(toComponentListEntry);
+  const pageSize = registry.config.componentListPageSize;
+  const sorted = registry.sortByIdDescending(registry.getByType(type));
+  const list = sorted.slice((page - 1) * pageSize, page * pageSize).map(toComponentListEntry);
 
   return {
     code: 200,
     msg: 'Success',
     data: {
       list,
-      total: list.length,
+      total: sorted.length,
+      page,
+      pageSize,
+    },
+    time: timestamp || getTimestamp(),
+  };
+}
+
+/**
+ * Generate every page of simulator/v2/getComponentList for every component type,
+ * plus the empty list for requests no page answers
+ * Keys are output paths
+ */
+export function generateComponentListPages(
+  registry: ComponentRegistry,
+  timestamp?: string
+): Map<string, ComponentListFile> {
+  const pages = new Map<string, ComponentListFile>();
+
+  for (const type of Object.keys(COMPONENT_TYPE_META).map(Number) as ComponentTypeValue[]) {
+    for (let page = 1; page <= countComponentListPages(registry, type); page++) {
+      pages.set(componentListPagePath(type, page), generateComponentList(registry, type, page, timestamp));
+    }
+  }
+
+  pages.set(EMPTY_COMPONENT_LIST_PATH, {
+    code: 200,
+    msg: 'Success',
+    data: {
+      list: [],
+      total: 0,
       page: 1,
-      pageSize: 10,
+      pageSize: registry.config.componentListPageSize,
     },
     time: timestamp || getTimestamp(),
+  });
+
+  return pages;
+}
+
+/**
+ * Route simulator/v2/getComponentList requests to the generated pages by `type` and `page`
+ * The app's default request (no query) is type 1, page 1
+ */
+export function generateComponentListRoute(registry: ComponentRegistry): QueryRoute {
+  const routes: Record<string, string> = {};
+
+  for (const type of Object.keys(COMPONENT_TYPE_META).map(Number) as ComponentTypeValue[]) {
+    for (let page = 1; page <= countComponentListPages(registry, type); page++) {
+      routes[`type=${type}&page=${page}`] = componentListPagePath(type, page);
+    }
+  }
+
+  return {
+    query: ['type', 'page'],
+    defaults: { type: String(ComponentType.BOX64_FEX), page: '1' },
+    routes,
+    fallback: EMPTY_COMPONENT_LIST_PATH,
   };
 }
 
@@ -329,34 +412,45 @@ export function generateImagefsDetail(
 }
 
 /**
- * Generate simulator/executeScript/generic or qualcomm
+ * Apply a preset's execution config overrides on top of the shared config
+ */
+function mergeExecutionConfig(
+  base: ExecutionConfig,
+  overrides: ExecutionConfigOverrides = {}
+): ExecutionConfig {
+  return {
+    ...base,
+    ...overrides,
+    translations: {
+      box64: { ...base.translations.box64, ...overrides.translations?.box64 },
+      fex: { ...base.translations.fex, ...overrides.translations?.fex },
+    },
+    controller: { ...base.controller, ...overrides.controller },
+  };
+}
+
+/**
+ * Generate simulator/executeScript/<preset>
  */
 export function generateExecuteScript(
   registry: ComponentRegistry,
-  variant: 'generic' | 'qualcomm',
+  preset: DevicePreset,
   timestamp?: string
 ): ExecuteScriptFile {
   const defaults = registry.defaults!;
-  const executionConfig = registry.executionConfig!;
+  const executionConfig = mergeExecutionConfig(registry.executionConfig!, preset.executionConfig);
   const imagefs = registry.imagefs!;
 
   // Get container
-  const container = registry.containers.find((c) => c.id === defaults.container);
+  const containerId = preset.container ?? defaults.container;
+  const container = registry.containers.find((c) => c.id === containerId);
   if (!container) {
-    throw new Error(`Container ${defaults.container} not found`);
+    throw new Error(`Container ${containerId} not found`);
   }
 
-  // Get component IDs and context based on variant
-  const componentIds =
-    variant === 'generic'
-      ? defaults.genericComponentIds
-      : defaults.qualcommComponentIds;
-  const executionContext =
-    variant === 'generic' ? defaults.genericContext : defaults.qualcommContext;
-
   // Get components
   const components: ExecuteComponent[] = [];
-  for (const id of componentIds) {
+  for (const id of preset.componentIds) {
     const component = registry.getById(id);
     if (component) {
       components.push(toExecuteComponent(component));
@@ -369,14 +463,14 @@ export function generateExecuteScript(
     data: {
       audio_driver: executionConfig.audio_driver,
       component: components,
-      component_ids: componentIds,
+      component_ids: preset.componentIds,
       container: toContainerRef(container),
-      container_id: defaults.container,
+      container_id: containerId,
       controller: executionConfig.controller,
       cpu_limitations: executionConfig.cpu_limitations,
       directx_panel: executionConfig.directx_panel,
       environment: executionConfig.environment,
-      execution_context: executionContext,
+      execution_context: preset.context,
       imagefs: toImagefsRef(imagefs),
       launch_windowed_mode: executionConfig.launch_windowed_mode,
       start_param: executionConfig.start_param,
@@ -0,0 +1,140 @@
+import type { ComponentRegistry } from '../registry/registry.js';
+import type { EmptyEndpoint } from '../types/index.js';
+import type {
+  BaseInfoFile,
+  TopPlatformFile,
+  GameCircleListFile,
+  TabListFile,
+  LoginFile,
+  RefreshTokenFile,
+  HeartbeatStartFile,
+  EmptyEndpointFile,
+} from '../types/outputs.js';
+import { getTimestamp } from '../utils/json.js';
+
+/**
+ * Generate base/getBaseInfo
+ */
+export function generateBaseInfo(registry: ComponentRegistry, timestamp?: string): BaseInfoFile {
+  return {
+    code: 200,
+    msg: 'Success',
+    data: registry.staticEndpoints!.baseInfo,
+    time: timestamp || getTimestamp(),
+  };
+}
+
+/**
+ * Generate card/getTopPlatform
+ */
+export function generateTopPlatform(registry: ComponentRegistry, timestamp?: string): TopPlatformFile {
+  return {
+    code: 200,
+    msg: 'Success',
+    data: registry.staticEndpoints!.topPlatforms,
+    time: timestamp || getTimestamp(),
+  };
+}
+
+/**
+ * Generate game/getGameCircleList
+ */
+export function generateGameCircleList(registry: ComponentRegistry, timestamp?: string): GameCircleListFile {
+  return {
+    code: 200,
+    msg: 'Success',
+    data: registry.staticEndpoints!.gameCircles,
+    time: timestamp || getTimestamp(),
+  };
+}
+
+/**
+ * Generate simulator/getTabList
+ */
+export function generateTabList(registry: ComponentRegistry, timestamp?: string): TabListFile {
+  return {
+    code: 200,
+    msg: 'Success',
+    data: registry.staticEndpoints!.simulatorTabs,
+    time: timestamp || getTimestamp(),
+  };
+}
+
+/**
+ * Generate email/login (always logs in the offline user)
+ */
+export function generateLogin(registry: ComponentRegistry, timestamp?: string): LoginFile {
+  return {
+    code: 200,
+    msg: 'Success',
+    data: {
+      userinfo: registry.staticEndpoints!.loginUser,
+    },
+    time: timestamp || getTimestamp(),
+  };
+}
+
+/**
+ * Generate jwt/refresh/token
+ */
+export function generateRefreshToken(registry: ComponentRegistry, timestamp?: string): RefreshTokenFile {
+  return {
+    code: 200,
+    msg: 'Success',
+    data: {
+      token: registry.staticEndpoints!.refreshToken,
+    },
+    time: timestamp || getTimestamp(),
+  };
+}
+
+/**
+ * Generate heartbeat/game/start
+ */
+export function generateHeartbeatStart(timestamp?: string): HeartbeatStartFile {
+  return {
+    code: 200,
+    msg: 'Success',
+    data: {
+      code: 0,
+      msg: '',
+    },
+    time: timestamp || getTimestamp(),
+  };
+}
+
+/**
+ * Generate an endpoint with a fixed empty payload
+ */
+export function generateEmptyEndpoint(endpoint: EmptyEndpoint, timestamp?: string): EmptyEndpointFile {
+  return {
+    code: 200,
+    msg: 'Success',
+    data: endpoint.data,
+    time: timestamp || getTimestamp(),
+  };
+}
+
+/**
+ * Generate every static endpoint, keyed by output path
+ */
+export function generateStaticEndpoints(
+  registry: ComponentRegistry,
+  timestamp?: string
+): Map<string, unknown> {
+  const outputs = new Map<string, unknown>();
+
+  outputs.set('base/getBaseInfo', generateBaseInfo(registry, timestamp));
+  outputs.set('card/getTopPlatform', generateTopPlatform(registry, timestamp));
+  outputs.set('game/getGameCircleList', generateGameCircleList(registry, timestamp));
+  outputs.set('simulator/getTabList', generateTabList(registry, timestamp));
+  outputs.set('email/login', generateLogin(registry, timestamp));
+  outputs.set('jwt/refresh/token', generateRefreshToken(registry, timestamp));
+  outputs.set('heartbeat/game/start', generateHeartbeatStart(timestamp));
+
+  for (const endpoint of registry.staticEndpoints!.emptyEndpoints) {
+    outputs.set(endpoint.route, generateEmptyEndpoint(endpoint, timestamp));
+  }
+
+  return outputs;
+}
@@ -0,0 +1,198 @@
+import { statSync, writeFileSync } from 'fs';
+import { basename } from 'path';
+
+import type { BuildConfig, Imagefs, ImagefsHistory, ImagefsRelease } from '../types/index.js';
+import { compareVersions, parseVersion } from '../registry/families.js';
+import { md5File } from '../sync/downloader.js';
+import { toGitHubAssetName } from '../utils/github.js';
+
+/**
+ * Thrown when a release cannot be added to the history
+ */
+export class ImagefsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImagefsError';
+  }
+}
+
+/**
+ * Options for adding a release
+ */
+export interface AddImagefsOptions {
+  version: string;
+  upgradeMsg: string;
+  force: boolean; // Allow activating a version lower than the active one
+}
+
+/**
+ * Get the active release
+ */
+export function getActiveRelease(history: ImagefsHistory): ImagefsRelease | undefined {
+  return history.releases.find((release) => release.version_code === history.active);
+}
+
+/**
+ * Resolve the active release into the Imagefs published by getImagefsDetail
+ * Returns null when the active version_code has no release
+ */
+export function getActiveImagefs(history: ImagefsHistory): Imagefs | null {
+  const release = getActiveRelease(history);
+  if (!release) {
+    return null;
+  }
+
+  return {
+    id: history.id,
+    name: history.name,
+    version: release.version,
+    version_code: release.version_code,
+    file_name: release.file_name,
+    file_md5: release.file_md5,
+    file_size: release.file_size,
+    download_url: release.download_url,
+    logo: history.logo,
+    display_name: history.display_name,
+    upgrade_msg: release.upgrade_msg,
+    blurb: history.blurb,
+  };
+}
+
+/**
+ * Check the history is consistent; returns every problem found
+ */
+export function validateImagefsHistory(history: ImagefsHistory, config: BuildConfig): string[] {
+  const errors: string[] = [];
+
+  if (!getActiveRelease(history)) {
+    errors.push(`Imagefs active version_code ${history.active} has no release`);
+  }
+
+  history.releases.forEach((release, i) => {
+    const previous = history.releases[i - 1];
+    if (previous && release.version_code <= previous.version_code) {
+      errors.push(
+        `Imagefs ${release.version} (${release.version_code}): version_code must be higher than ${previous.version_code}`
+      );
+    }
+    if (!parseVersion(release.version)) {
+      errors.push(`Imagefs ${release.version} (${release.version_code}): version is not a version number`);
+    }
+    if (toGitHubAssetName(release.file_name) !== release.file_name) {
+      errors.push(
+        `Imagefs ${release.version} (${release.version_code}): file_name is renamed to "${toGitHubAssetName(release.file_name)}" by GitHub`
+      );
+    }
+    const expectedUrl = `${config.dataCdnBaseUrl}/${release.file_name}`;
+    if (release.download_url !== expectedUrl) {
+      errors.push(`Imagefs ${release.version} (${release.version_code}): download_url is not ${expectedUrl}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Add a firmware file to the history and make it the active release
+ * The new version_code is one above the highest in the history, so a forced
+ * rollback still reaches clients as an upgrade
+ */
+export async function addImagefsRelease(
+  history: ImagefsHistory,
+  filePath: string,
+  options: AddImagefsOptions,
+  config: BuildConfig
+): Promise<ImagefsRelease> {
+  const version = parseVersion(options.version);
+  if (!version) {
+    throw new ImagefsError(`"${options.version}" is not a version number`);
+  }
+
+  const active = getActiveRelease(history);
+  const activeVersion = active ? parseVersion(active.version) : null;
+  if (activeVersion && compareVersions(version, activeVersion) < 0 && !options.force) {
+    throw new ImagefsError(
+      `Version ${options.version} is lower than the active ${active!.version}; use --force to roll back`
+    );
+  }
+
+  // Record the name GitHub gives the asset on upload
+  const fileName = toGitHubAssetName(basename(filePath));
+  const fileMd5 = await md5File(filePath);
+
+  if (active && active.file_md5 === fileMd5) {
+    throw new ImagefsError(`${fileName} is already the active release (${active.version})`);
+  }
+
+  // A recorded file is made active again instead of being added twice
+  const recorded = history.releases.find((release) => release.file_md5 === fileMd5);
+  if (recorded) {
+    throw new ImagefsError(
+      `${fileName} is already release ${recorded.version} (${recorded.version_code}); ` +
+        `use \`imagefs activate ${recorded.version_code}\``
+    );
+  }
+
+  // Older releases keep pointing at their own asset, so names cannot be reused
+  const sameName = history.releases.find((release) => release.file_name === fileName);
+  if (sameName && sameName.file_md5 !== fileMd5) {
+    throw new ImagefsError(
+      `${fileName} is already the asset of release ${sameName.version} (${sameName.version_code}); rename the file`
+    );
+  }
+
+  const release: ImagefsRelease = {
+    version: options.version,
+    version_code: Math.max(0, ...history.releases.map((r) => r.version_code)) + 1,
+    file_name: fileName,
+    file_md5: fileMd5,
+    file_size: String(statSync(filePath).size),
+    download_url: `${config.dataCdnBaseUrl}/${fileName}`,
+    upgrade_msg: options.upgradeMsg,
+  };
+
+  history.releases.push(release);
+  history.active = release.version_code;
+  return release;
+}
+
+/**
+ * Publish a recorded release again, e.g. to roll back
+ * The file is added as a new entry with a version_code above the highest in the
+ * history, so clients see it as an upgrade; its asset is already on the release.
+ * `ref` is a version_code or a version; an older version than the active one needs `force`
+ */
+export function activateImagefsRelease(history: ImagefsHistory, ref: string, force: boolean): ImagefsRelease {
+  const matches = /^\d+$/.test(ref)
+    ? history.releases.filter((r) => r.version_code === Number(ref))
+    : history.releases.filter((r) => r.version === ref);
+  const recorded = matches[matches.length - 1];
+  if (!recorded) {
+    throw new ImagefsError(`No release with version or version_code "${ref}"; see \`imagefs list\``);
+  }
+
+  const active = getActiveRelease(history);
+  if (active && active.file_md5 === recorded.file_md5) {
+    throw new ImagefsError(`${recorded.file_name} is already the active release (${active.version})`);
+  }
+  const version = parseVersion(recorded.version);
+  const activeVersion = active ? parseVersion(active.version) : null;
+  if (version && activeVersion && compareVersions(version, activeVersion) < 0 && !force) {
+    throw new ImagefsError(`Version ${recorded.version} is lower than the active ${active!.version}; use --force to roll back`);
+  }
+
+  const release: ImagefsRelease = {
+    ...recorded,
+    version_code: Math.max(0, ...history.releases.map((r) => r.version_code)) + 1,
+  };
+  history.releases.push(release);
+  history.active = release.version_code;
+  return release;
+}
+
+/**
+ * Write the history back to its data file
+ */
+export function writeImagefsHistory(path: string, history: ImagefsHistory): void {
+  writeFileSync(path, JSON.stringify(history, null, 2) + '\n');
+}
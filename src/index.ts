@@ -1,78 +1,44 @@
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
-import { join, dirname } from 'path';
-import { execSync } from 'child_process';
-
-import { parseXmlFile } from './parsers/xml-parser.js';
+import { copyFileSync, writeFileSync, mkdirSync, existsSync, readdirSync, rmSync, statSync } from 'fs';
+import { join, dirname, resolve, sep } from 'path';
+
+import { ConfigError, formatResolvedConfig, resolveConfig } from './config/resolve.js';
+import type { ResolvedConfig } from './config/resolve.js';
+import { loadRegistry } from './registry/loader.js';
+import { GENERATED_DIRS, generateAllOutputs, keepUnchangedTimestamps } from './generators/index.js';
+import { diffOutputs, findOrphanedOutputs, findStaleOutputs, formatDiffTable } from './diff/endpoint-diff.js';
+import { findVersionCodeDowngrades } from './diff/version-check.js';
+import { diffXmlComponents, formatXmlChangelog, parseXmlRevision } from './diff/xml-changelog.js';
+import type { XmlChangelog } from './diff/xml-changelog.js';
 import { parseCustomComponents } from './parsers/custom-parser.js';
-import { ComponentRegistry, OriginalComponentInfo } from './registry/registry.js';
-import {
-  generateAllManifests,
-  generateIndex,
-  generateDownloads,
-  generateAllComponentList,
-  generateComponentList,
-  generateContainerList,
-  generateDefaultComponent,
-  generateImagefsDetail,
-  generateExecuteScript,
-} from './generators/index.js';
-import { formatJson } from './utils/json.js';
-import type { BuildConfig, Container, Imagefs, Defaults, ExecutionConfig } from './types/index.js';
-import { DEFAULT_CONFIG } from './types/index.js';
-
-/**
- * Load JSON file
- */
-function loadJson<T>(path: string): T {
-  const content = readFileSync(path, 'utf-8');
-  return JSON.parse(content) as T;
-}
-
-/**
- * Get the list of assets in a GitHub release
- */
-function getGitHubReleaseAssets(repo: string, release: string): Set<string> {
-  try {
-    const output = execSync(
-      `gh release view "${release}" --repo "${repo}" --json assets --jq '.assets[].name'`,
-      { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] }
-    );
-    return new Set(output.trim().split('\n').filter(Boolean));
-  } catch {
-    console.warn('   Warning: Could not fetch GitHub release assets (gh CLI not available or not authenticated)');
-    return new Set();
-  }
-}
-
-/**
- * Check for missing files on GitHub and report them
- */
-function checkMissingFiles(
-  registry: ComponentRegistry,
-  config: BuildConfig
-): { missing: OriginalComponentInfo[]; total: number } {
-  const githubAssets = getGitHubReleaseAssets(config.githubRepo, config.githubRelease);
-
-  if (githubAssets.size === 0) {
-    return { missing: [], total: 0 };
-  }
-
-  const allInfo = registry.getAllOriginalInfo();
-  const missing: OriginalComponentInfo[] = [];
-
-  for (const info of allInfo) {
-    if (!githubAssets.has(info.githubFileName)) {
-      missing.push(info);
-    }
-  }
-
-  return { missing, total: allInfo.length };
-}
+import type { CustomComponentsFile } from './parsers/custom-parser.js';
+import { formatXmlDiagnostic, parseXmlFile } from './parsers/xml-parser.js';
+import { IdLedgerError, nextCustomId, syncIdLedger, writeIdLedger } from './registry/id-ledger.js';
+import type { IdLedger } from './registry/id-ledger.js';
+import { createApiServer, listRoutes } from './server/server.js';
+import { checkMissingFiles, getUploadCommand, uploadToRelease } from './utils/github.js';
+import { downloadMissingFiles, printReadyFiles, syncMissingFiles } from './sync/sync.js';
+import { recordChecksums, verifyAssets } from './sync/verify.js';
+import { activateImagefsRelease, addImagefsRelease, ImagefsError, writeImagefsHistory } from './imagefs/history.js';
+import { formatJson, getTimestamp, loadJson } from './utils/json.js';
+import { formatTable, truncate } from './utils/table.js';
+import { findDisallowedUrls } from './utils/urls.js';
+import { getFlagValue, hasFlag } from './utils/args.js';
+import { SchemaValidationError } from './utils/schema.js';
+import { XmlSyntaxError } from './parsers/xml-reader.js';
+import { getArchiveBaseName } from './packaging/archive.js';
+import { PACKAGE_LAYOUTS, parseComponentType } from './packaging/layouts.js';
+import { getPackageName, packageArchive, PackageError } from './packaging/packager.js';
+import type { PackagedFile } from './packaging/packager.js';
+import { inspectArchives, recordContents } from './packaging/inspect.js';
+import { getNameFamily, getNameVersion } from './registry/families.js';
+import type { OverridesFile } from './registry/overrides.js';
+import type { BuildConfig, ComponentTypeValue, Defaults, DevicePresetsFile, ImagefsHistory } from './types/index.js';
+import { COMPONENT_TYPE_META, ComponentType } from './types/index.js';
 
 /**
  * Write an output file
  */
-function writeOutput(basePath: string, relativePath: string, data: unknown): void {
+function writeOutput(basePath: string, relativePath: string, content: string): void {
   const fullPath = join(basePath, relativePath);
   const dir = dirname(fullPath);
 
@@ -80,49 +46,22 @@ function writeOutput(basePath: string, relativePath: string, data: unknown): voi
     mkdirSync(dir, { recursive: true });
   }
 
-  writeFileSync(fullPath, formatJson(data));
+  writeFileSync(fullPath, content);
   console.log(`  ✓ ${relativePath}`);
 }
 
 /**
  * Build all output files
  */
-async function build(config: BuildConfig): Promise<void> {
+async function build(resolved: ResolvedConfig, args: string[]): Promise<void> {
+  const config = resolved.config;
+
   console.log('GameHub Lite API Build System');
   console.log('=============================\n');
 
-  // 1. Parse XML
-  console.log('1. Parsing XML source...');
-  const xmlComponents = parseXmlFile(config.xmlSource);
-  console.log(`   Found ${xmlComponents.length} components from XML`);
-
-  // 2. Parse custom components
-  console.log('2. Loading custom components...');
-  const customComponents = parseCustomComponents(config.customComponentsFile, config);
-  console.log(`   Found ${customComponents.length} custom components\n`);
-
-  // Merge components
-  const components = [...xmlComponents, ...customComponents];
-  console.log(`   Total: ${components.length} components\n`);
-
-  // 3. Create registry
-  console.log('3. Building registry...');
-  const registry = new ComponentRegistry(config);
-  registry.addComponents(components);
-
-  // 4. Load static data
-  console.log('4. Loading static data...');
-  registry.containers = loadJson<Container[]>(config.containersFile);
-  console.log(`   Loaded ${registry.containers.length} containers`);
-
-  registry.imagefs = loadJson<Imagefs>(config.imagefsFile);
-  console.log(`   Loaded imagefs`);
-
-  registry.defaults = loadJson<Defaults>(config.defaultsFile);
-  console.log(`   Loaded defaults`);
+  console.log(`${formatResolvedConfig(resolved)}\n`);
 
-  registry.executionConfig = loadJson<ExecutionConfig>(config.executionConfigFile);
-  console.log(`   Loaded execution config\n`);
+  const registry = loadRegistry(config, (message) => console.log(message));
 
   // 5. Validate
   console.log('5. Validating...');
@@ -134,68 +73,90 @@ async function build(config: BuildConfig): Promise<void> {
     }
     process.exit(1);
   }
-  console.log('   ✓ All validations passed\n');
-
-  // 6. Get timestamp for consistency
-  const timestamp = config.timestamp || String(Math.floor(Date.now() / 1000));
-
-  // 7. Generate output files
-  console.log('6. Generating output files...');
-
-  // Manifests
-  const manifests = generateAllManifests(registry);
-  for (const [name, data] of manifests) {
-    writeOutput(config.outputDir, `components/${name}`, data);
+  console.log('   ✓ All validations passed');
+  for (const warning of validation.warnings) {
+    console.warn(`   ⚠ ${warning}`);
   }
 
-  // Index
-  writeOutput(config.outputDir, 'components/index', generateIndex(registry));
-
-  // Downloads
-  writeOutput(config.outputDir, 'components/downloads', generateDownloads(registry));
-
-  // Simulator endpoints
-  writeOutput(
-    config.outputDir,
-    'simulator/v2/getAllComponentList',
-    generateAllComponentList(registry, timestamp)
-  );
-
-  writeOutput(
-    config.outputDir,
-    'simulator/v2/getComponentList',
-    generateComponentList(registry, timestamp)
-  );
+  // Warn about version codes that went down since the last build
+  for (const downgrade of findVersionCodeDowngrades(registry, config.outputDir)) {
+    console.warn(
+      `   ⚠ Component ${downgrade.id} (${downgrade.name}): version_code lowered ${downgrade.before} → ${downgrade.after}`
+    );
+  }
+  console.log('');
 
-  writeOutput(
-    config.outputDir,
-    'simulator/v2/getContainerList',
-    generateContainerList(registry, timestamp)
-  );
+  // 6. Get timestamp for consistency
+  const timestamp = config.timestamp || getTimestamp();
+
+  // 7. Generate all output files in memory; unchanged endpoints keep their committed time
+  const outputs = generateAllOutputs(registry, timestamp);
+  const kept = keepUnchangedTimestamps(outputs, config.outputDir);
+  const contents = new Map<string, string>();
+  for (const [path, data] of outputs) {
+    contents.set(path, formatJson(data));
+  }
 
-  writeOutput(
-    config.outputDir,
-    'simulator/v2/getDefaultComponent',
-    generateDefaultComponent(registry, timestamp)
-  );
+  // Every URL must point at an allowed host, so a mirror build cannot leak upstream references
+  const disallowed = findDisallowedUrls(outputs, config.allowedHosts);
+  if (disallowed.length > 0) {
+    console.error(`   ❌ ${disallowed.length} URL(s) point outside the allowed hosts (${config.allowedHosts.join(', ')}):`);
+    for (const reference of disallowed) {
+      console.error(`   - ${reference.endpoint} ${reference.path}: ${reference.url}`);
+    }
+    console.error('\n   Use --allow-host <host> to allow a host');
+    process.exit(1);
+  }
 
-  writeOutput(
-    config.outputDir,
-    'simulator/v2/getImagefsDetail',
-    generateImagefsDetail(registry, timestamp)
-  );
+  // --check: compare with the committed files instead of writing
+  if (hasFlag(args, '--check')) {
+    console.log('6. Checking committed output files...');
+    const stale = findStaleOutputs(contents, config.outputDir);
+    const orphaned = findOrphanedOutputs(contents.keys(), config.outputDir, GENERATED_DIRS);
+    if (stale.length > 0) {
+      console.error(`   ❌ ${stale.length} of ${contents.size} output files are stale:`);
+      for (const path of stale) {
+        console.error(`   - ${path}`);
+      }
+    }
+    if (orphaned.length > 0) {
+      console.error(`   ❌ ${orphaned.length} committed file(s) are no longer generated:`);
+      for (const path of orphaned) {
+        console.error(`   - ${path}`);
+      }
+    }
+    if (stale.length > 0 || orphaned.length > 0) {
+      console.error('\n   Run `npm run build` and commit the result');
+      process.exit(1);
+    }
+    console.log(`   ✓ All ${contents.size} output files are up to date\n`);
+    return;
+  }
 
-  writeOutput(
-    config.outputDir,
-    'simulator/executeScript/generic',
-    generateExecuteScript(registry, 'generic', timestamp)
-  );
+  const outputDir = getFlagValue(args, '--out') ?? config.outputDir;
+  console.log(`6. Writing output files${outputDir === config.outputDir ? '' : ` to ${outputDir}`}...`);
+  for (const [path, content] of contents) {
+    writeOutput(outputDir, path, content);
+  }
+  for (const path of findOrphanedOutputs(contents.keys(), outputDir, GENERATED_DIRS)) {
+    rmSync(join(outputDir, path));
+    console.log(`  ✗ ${path} (no longer generated, removed)`);
+  }
+  if (kept.length > 0) {
+    console.log(`  (${kept.length} unchanged endpoints kept their previous time)`);
+  }
 
-  writeOutput(
-    config.outputDir,
-    'simulator/executeScript/qualcomm',
-    generateExecuteScript(registry, 'qualcomm', timestamp)
-  );
+  // A separate output directory gets the hand-maintained endpoints too, so it is a complete tree
+  if (resolve(outputDir) !== resolve(config.outputDir)) {
+    for (const route of listRoutes(config.outputDir)) {
+      const path = route.slice(1);
+      if (!contents.has(path) && !resolve(config.outputDir, path).startsWith(`${resolve(outputDir)}${sep}`)) {
+        mkdirSync(dirname(join(outputDir, path)), { recursive: true });
+        copyFileSync(join(config.outputDir, path), join(outputDir, path));
+        console.log(`  ✓ ${path} (copied)`);
+      }
+    }
+  }
 
   console.log('\n✓ Build complete!\n');
 
@@ -214,31 +175,55 @@ async function build(config: BuildConfig): Promise<void> {
 
   // Check for missing files on GitHub
   console.log('\n7. Checking GitHub release for missing files...');
-  const { missing, total } = checkMissingFiles(registry, config);
+  const { missing, missingContainerAssets, total } = checkMissingFiles(registry, config);
+  const missingCount = missing.length + missingContainerAssets.length;
 
   if (total === 0) {
     console.log('   Skipped (could not fetch GitHub assets)\n');
-  } else if (missing.length === 0) {
-    console.log(`   ✓ All ${total} component files exist on GitHub release\n`);
+  } else if (missingCount === 0) {
+    console.log(`   ✓ All ${total} component and container files exist on GitHub release\n`);
   } else {
-    console.log(`\n   ⚠ MISSING FILES: ${missing.length} of ${total} files not found on GitHub!\n`);
+    console.log(`\n   ⚠ MISSING FILES: ${missingCount} of ${total} files not found on GitHub!\n`);
     console.log('   These files must be uploaded to GitHub release before deployment.\n');
-    console.log('   Download commands:');
-    console.log('   ```bash');
-    console.log('   mkdir -p /tmp/missing_components && cd /tmp/missing_components\n');
-
-    for (const info of missing) {
-      const encodedUrl = info.originalDownloadUrl.replace(/ /g, '%20');
-      console.log(`   # ${info.name} (ID: ${info.id})`);
-      console.log(`   curl -L -o "${info.githubFileName}" "${encodedUrl}"\n`);
+
+    if (missing.length > 0) {
+      console.log('   Download commands:');
+      console.log('   ```bash');
+      console.log('   mkdir -p /tmp/missing_components && cd /tmp/missing_components\n');
+
+      for (const info of missing) {
+        const encodedUrl = info.originalDownloadUrl.replace(/ /g, '%20');
+        console.log(`   # ${info.name} (ID: ${info.id})`);
+        console.log(`   curl -L -o "${info.githubFileName}" "${encodedUrl}"\n`);
+      }
+
+      console.log('   ```\n');
+      console.log('   Upload command:');
+      console.log('   ```bash');
+      console.log(`   ${getUploadCommand(config, missing.map((m) => m.githubFileName))}`);
+      console.log('   ```\n');
+
+      // Fetch the files now instead of leaving the curl commands to the user
+      if (config.downloadMissing) {
+        console.log(`   Downloading missing files to ${config.downloadDir}...`);
+        const results = await downloadMissingFiles(missing, config);
+        printReadyFiles(results, config);
+        console.log('');
+      }
     }
 
-    console.log('   ```\n');
-    console.log('   Upload command:');
-    console.log('   ```bash');
-    const fileList = missing.map((m) => `"${m.githubFileName}"`).join(' ');
-    console.log(`   gh release upload ${config.githubRelease} ${fileList} --repo ${config.githubRepo}`);
-    console.log('   ```\n');
+    // Container files have no upstream URL to fetch from; they must come from a local copy
+    if (missingContainerAssets.length > 0) {
+      console.log('   Missing container files (upload from a local copy):');
+      for (const asset of missingContainerAssets) {
+        const kind = asset.kind === 'sub_file' ? 'sub_data file' : 'main file';
+        console.log(`   - ${asset.fileName} (container ${asset.containerId} ${asset.containerName}, ${kind})`);
+      }
+      console.log('\n   Upload command:');
+      console.log('   ```bash');
+      console.log(`   ${getUploadCommand(config, missingContainerAssets.map((a) => a.fileName))}`);
+      console.log('   ```\n');
+    }
 
     // Exit with error to prevent deployment with missing files
     console.error('   ❌ Build failed: Missing files must be uploaded before deployment');
@@ -252,17 +237,17 @@ async function build(config: BuildConfig): Promise<void> {
 async function validate(config: BuildConfig): Promise<void> {
   console.log('Validating data...\n');
 
-  const components = parseXmlFile(config.xmlSource);
-  const registry = new ComponentRegistry(config);
-  registry.addComponents(components);
-
-  registry.containers = loadJson<Container[]>(config.containersFile);
-  registry.imagefs = loadJson<Imagefs>(config.imagefsFile);
-  registry.defaults = loadJson<Defaults>(config.defaultsFile);
-  registry.executionConfig = loadJson<ExecutionConfig>(config.executionConfigFile);
+  const registry = loadRegistry(config);
+  for (const diagnostic of registry.xmlDiagnostics) {
+    console.warn(`⚠ ${formatXmlDiagnostic(diagnostic)}`);
+  }
 
   const validation = registry.validate();
 
+  for (const warning of validation.warnings) {
+    console.warn(`⚠ ${warning}`);
+  }
+
   if (validation.valid) {
     console.log('✓ All validations passed');
   } else {
@@ -274,6 +259,483 @@ async function validate(config: BuildConfig): Promise<void> {
   }
 }
 
+/**
+ * Download files missing from the GitHub release and report what is ready to upload
+ */
+async function sync(config: BuildConfig, args: string[]): Promise<void> {
+  console.log('Syncing missing files...\n');
+
+  const registry = loadRegistry(config);
+  const all = hasFlag(args, '--all');
+
+  console.log(all ? '1. Collecting all component files...' : '1. Checking GitHub release for missing files...');
+  const report = await syncMissingFiles(registry, config, { all });
+
+  if (!report.releaseChecked) {
+    console.error('   Could not read the GitHub release; use --all to download every component file');
+    process.exit(1);
+  }
+
+  if (report.missingContainerAssets.length > 0) {
+    console.log('   Missing container files (not downloadable, upload from a local copy):');
+    for (const asset of report.missingContainerAssets) {
+      console.log(`   - ${asset.fileName} (container ${asset.containerId} ${asset.containerName})`);
+    }
+  }
+
+  if (report.requested.length === 0) {
+    console.log('   ✓ No missing component files');
+    return;
+  }
+
+  console.log(`\n2. ${report.ready.length} of ${report.requested.length} files downloaded and verified`);
+  printReadyFiles([...report.ready, ...report.failed], config);
+
+  if (report.failed.length > 0) {
+    console.error(`\n   ❌ ${report.failed.length} file(s) could not be downloaded`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Compare generated endpoints with the committed files
+ */
+async function diff(config: BuildConfig, args: string[]): Promise<void> {
+  const registry = loadRegistry(config);
+
+  const validation = registry.validate();
+  if (!validation.valid) {
+    console.error('Validation errors:');
+    for (const error of validation.errors) {
+      console.error(`  - ${error}`);
+    }
+    process.exit(1);
+  }
+
+  const timestamp = config.timestamp || getTimestamp();
+  const outputs = generateAllOutputs(registry, timestamp);
+  const diffs = diffOutputs(outputs, config.outputDir, GENERATED_DIRS);
+
+  if (hasFlag(args, '--json')) {
+    console.log(formatJson(diffs.filter((d) => d.status !== 'unchanged')));
+    return;
+  }
+
+  const changed = diffs.filter((d) => d.status !== 'unchanged');
+  console.log(formatDiffTable(changed));
+  console.log(`\n${changed.length} of ${diffs.length} endpoints differ (ignoring "time")`);
+}
+
+/**
+ * Serve the generated tree at the routes the app calls
+ */
+async function serve(config: BuildConfig, args: string[]): Promise<void> {
+  const root = getFlagValue(args, '--root') ?? config.outputDir;
+  const host = getFlagValue(args, '--host') ?? '0.0.0.0';
+  const port = Number(getFlagValue(args, '--port') ?? 8080);
+
+  const routes = listRoutes(root);
+  const server = createApiServer({ root, log: (message) => console.log(message) });
+
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+
+  console.log(`Serving ${routes.length} routes from ${root} on http://${host}:${port}`);
+  for (const route of routes) {
+    console.log(`  ${route}`);
+  }
+  console.log('\nPress Ctrl+C to stop\n');
+}
+
+/**
+ * Manage the firmware release history (data/imagefs.json)
+ */
+async function imagefs(config: BuildConfig, args: string[]): Promise<void> {
+  const subcommand = args[0];
+  const history = loadJson<ImagefsHistory>(config.imagefsFile, 'data/imagefs.schema.json');
+
+  if (subcommand === 'list') {
+    const rows = history.releases.map((release) => [
+      release.version_code === history.active ? '*' : '',
+      String(release.version_code),
+      release.version,
+      release.file_name,
+      release.file_md5,
+      truncate(release.upgrade_msg),
+    ]);
+    console.log(formatTable(['', 'Code', 'Version', 'File', 'MD5', 'Notes'], rows));
+    return;
+  }
+
+  if ((subcommand !== 'add' && subcommand !== 'activate') || !args[1] || args[1].startsWith('--')) {
+    console.log('Usage: imagefs add <file> --version <version> [--message <notes>] [--force]');
+    console.log('       imagefs activate <version|version_code> [--force]');
+    console.log('       imagefs list');
+    process.exit(1);
+  }
+
+  if (subcommand === 'activate') {
+    const release = activateImagefsRelease(history, args[1], hasFlag(args, '--force'));
+    writeImagefsHistory(config.imagefsFile, history);
+
+    console.log(`✓ Imagefs ${release.version} is now active (version_code ${release.version_code})`);
+    console.log('\nRun the build to publish it:');
+    console.log('```bash');
+    console.log('npm run build');
+    console.log('```');
+    return;
+  }
+
+  const file = args[1];
+  const version = getFlagValue(args, '--version');
+  if (!existsSync(file)) {
+    console.error(`File not found: ${file}`);
+    process.exit(1);
+  }
+  if (!version) {
+    console.error('Missing --version');
+    process.exit(1);
+  }
+
+  const release = await addImagefsRelease(
+    history,
+    file,
+    { version, upgradeMsg: getFlagValue(args, '--message') ?? '', force: hasFlag(args, '--force') },
+    config
+  );
+  writeImagefsHistory(config.imagefsFile, history);
+
+  console.log(`✓ Imagefs ${release.version} is now active (version_code ${release.version_code})`);
+  console.log(`  ${release.file_name}: ${release.file_size} bytes, MD5 ${release.file_md5}`);
+  console.log('\nUpload the file, then run the build:');
+  console.log('```bash');
+  console.log(getUploadCommand(config, [file]));
+  console.log('npm run build');
+  console.log('```');
+}
+
+/**
+ * Check a directory of asset files against the registry before uploading
+ */
+async function verifyAssetsCommand(config: BuildConfig, args: string[]): Promise<void> {
+  const dir = args[0];
+  if (!dir || dir.startsWith('--')) {
+    console.log('Usage: verify-assets <dir> [--ignore-missing] [--record] [--json]');
+    process.exit(1);
+  }
+  if (!existsSync(dir)) {
+    console.error(`Directory not found: ${dir}`);
+    process.exit(1);
+  }
+
+  const registry = loadRegistry(config);
+  const checks = await verifyAssets(registry, dir);
+  const reported = hasFlag(args, '--ignore-missing') ? checks.filter((c) => c.status !== 'missing') : checks;
+  const problems = reported.filter((c) => c.status !== 'ok');
+
+  if (hasFlag(args, '--json')) {
+    console.log(formatJson(reported));
+  } else {
+    const rows = reported.map((check) => [
+      check.status === 'ok' ? '✓' : '✗',
+      check.fileName,
+      check.status,
+      check.assets.map((asset) => asset.label).join(', '),
+      check.detail,
+    ]);
+    console.log(formatTable(['', 'File', 'Status', 'Used by', 'Detail'], rows));
+    // A file shared by several entries can have an 'ok' row and mismatch rows
+    const files = new Set(reported.map((c) => c.fileName));
+    const failed = new Set(problems.map((c) => c.fileName));
+    console.log(`\n${files.size - failed.size} of ${files.size} files OK`);
+  }
+
+  if (hasFlag(args, '--record')) {
+    const added = recordChecksums(config.checksumsFile, checks);
+    console.error(`Recorded ${added} new SHA-256 checksum(s) in ${config.checksumsFile}`);
+  }
+
+  if (problems.length > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * List the contents of component archives in a directory and check them
+ * against the layout of each component's type
+ */
+async function inspectCommand(config: BuildConfig, args: string[]): Promise<void> {
+  const dir = args[0];
+  if (!dir || dir.startsWith('--')) {
+    console.log('Usage: inspect <dir> [--record] [--json]');
+    process.exit(1);
+  }
+  if (!existsSync(dir)) {
+    console.error(`Directory not found: ${dir}`);
+    process.exit(1);
+  }
+
+  const registry = loadRegistry(config);
+  const inspections = await inspectArchives(registry, dir);
+  const problems = inspections.filter((inspection) => inspection.problems.length > 0);
+
+  if (hasFlag(args, '--json')) {
+    console.log(formatJson(inspections));
+  } else {
+    for (const inspection of inspections) {
+      const usedBy =
+        inspection.components.length > 0
+          ? inspection.components
+              .map((c) => `${c.id} ${c.name} (${COMPONENT_TYPE_META[c.type].displayName})`)
+              .join(', ')
+          : 'no component';
+      console.log(`${inspection.problems.length > 0 ? '✗' : '✓'} ${inspection.fileName} — ${usedBy}`);
+      if (inspection.files.length > 0) {
+        const rows = inspection.files.map((file) => [file.path, file.size.toString()]);
+        console.log(formatTable(['Path', 'Size'], rows));
+      }
+      for (const problem of inspection.problems) {
+        console.log(`   ✗ ${problem}`);
+      }
+      console.log('');
+    }
+    console.log(`${inspections.length - problems.length} of ${inspections.length} archives OK`);
+  }
+
+  if (hasFlag(args, '--record')) {
+    const recorded = recordContents(config.contentsFile, inspections);
+    console.error(`Recorded ${recorded} content listing(s) in ${config.contentsFile}`);
+  }
+
+  if (problems.length > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Changelog between two versions of the upstream XML, for pull requests
+ */
+async function xmlChangelog(config: BuildConfig, args: string[]): Promise<void> {
+  // A bare revision ("HEAD~1") means the XML source at that revision
+  const toSpec = (value: string | undefined, fallback: string) => {
+    if (value === undefined || value.startsWith('--')) return fallback;
+    return value.includes(':') || existsSync(value) ? value : `${value}:${config.xmlSource}`;
+  };
+  const before = toSpec(args[0], `HEAD:${config.xmlSource}`);
+  const after = toSpec(args[0]?.startsWith('--') ? undefined : args[1], config.xmlSource);
+
+  const options = { salvage: config.xmlSalvage };
+  const beforeXml = parseXmlRevision(before, options);
+  const afterXml = parseXmlRevision(after, options);
+  const customIds = new Set(parseCustomComponents(config.customComponentsFile, config).map((c) => c.id));
+
+  const changelog: XmlChangelog = {
+    before,
+    after,
+    ...diffXmlComponents(
+      beforeXml.components,
+      afterXml.components,
+      {
+        defaults: loadJson<Defaults>(config.defaultsFile, 'data/defaults.schema.json'),
+        presets: loadJson<DevicePresetsFile>(config.devicePresetsFile, 'data/device_presets.schema.json').presets,
+        overrides: loadJson<OverridesFile>(config.overridesFile, 'data/overrides.schema.json').overrides,
+      },
+      customIds
+    ),
+    diagnostics: afterXml.diagnostics,
+  };
+
+  console.log(hasFlag(args, '--json') ? formatJson(changelog) : formatXmlChangelog(changelog));
+}
+
+/**
+ * Manage the ID ledger (data/id_ledger.json)
+ */
+async function ids(config: BuildConfig, args: string[]): Promise<void> {
+  const subcommand = args[0];
+  const ledger = loadJson<IdLedger>(config.idLedgerFile, 'data/id_ledger.schema.json');
+
+  if (subcommand === 'next') {
+    const count = Number(args[1] && !args[1].startsWith('--') ? args[1] : 1);
+    const first = nextCustomId(ledger);
+    console.log(Array.from({ length: count }, (_, i) => first + i).join('\n'));
+    return;
+  }
+
+  if (subcommand !== 'sync') {
+    console.log('Usage: ids sync     Record new IDs and retire the IDs of removed components');
+    console.log('       ids next [n] Print the next free custom ID(s)');
+    process.exit(1);
+  }
+
+  const xml = parseXmlFile(config.xmlSource, { salvage: config.xmlSalvage }).components;
+  const custom = parseCustomComponents(config.customComponentsFile, config);
+  const result = syncIdLedger(ledger, xml, custom);
+  writeIdLedger(config.idLedgerFile, ledger);
+
+  const list = (values: number[]) => (values.length > 0 ? ` (${values.join(', ')})` : '');
+  console.log(
+    `✓ ID ledger updated: ${result.added.length} added${list(result.added)}, ` +
+      `${result.retired.length} retired${list(result.retired)}, ${result.renamed.length} renamed`
+  );
+}
+
+/**
+ * Package release archives in the layout of a component type and add them to custom_components.json
+ * With --upload, --clean and --build it also uploads the packages, removes the local files and runs the build
+ */
+async function packageCommand(resolved: ResolvedConfig, args: string[]): Promise<void> {
+  const config = resolved.config;
+  const input = args[0];
+  const typeFlag = getFlagValue(args, '--type');
+  const type = typeFlag ? parseComponentType(typeFlag) : null;
+  if (!input || input.startsWith('--') || !type) {
+    console.log(
+      'Usage: package <archive|dir> --type <type> [--name <name>] [--version <version>] [--version-code <n>] [--out <dir>]'
+    );
+    console.log('               [--upload] [--clean] [--build]');
+    console.log('\nTypes and the layout each package must have:');
+    for (const [value, meta] of Object.entries(COMPONENT_TYPE_META)) {
+      console.log(`  ${value} ${meta.name.padEnd(10)} ${PACKAGE_LAYOUTS[Number(value) as ComponentTypeValue].description}`);
+    }
+    process.exit(1);
+  }
+  if (!existsSync(input)) {
+    console.error(`Not found: ${input}`);
+    process.exit(1);
+  }
+
+  // A directory packages every archive in it, like the .tmp_drivers/ workflow
+  const archives = statSync(input).isDirectory()
+    ? readdirSync(input)
+        .filter((name) => getArchiveBaseName(name) !== null)
+        .sort()
+        .map((name) => join(input, name))
+    : [input];
+  const name = getFlagValue(args, '--name');
+  if (name && archives.length > 1) {
+    console.error('--name can only be used with a single archive');
+    process.exit(1);
+  }
+  const versionCodeFlag = getFlagValue(args, '--version-code');
+  if (versionCodeFlag !== undefined && !/^[1-9][0-9]*$/.test(versionCodeFlag)) {
+    console.error(`--version-code must be a positive integer, got "${versionCodeFlag}"`);
+    process.exit(1);
+  }
+  if (archives.length === 0) {
+    console.log(`No archives found in ${input}`);
+    return;
+  }
+
+  // Each package is a new version of its family, so its version_code goes above the family's highest
+  const registry = loadRegistry(config);
+  const familyCodes = new Map<string, number>();
+  for (const [family, members] of registry.getFamilies(type)) {
+    familyCodes.set(family, Math.max(...members.map((member) => member.version_code)));
+  }
+
+  const customFile = loadJson<CustomComponentsFile>(
+    config.customComponentsFile,
+    'data/custom_components.schema.json'
+  );
+  const ledger = loadJson<IdLedger>(config.idLedgerFile, 'data/id_ledger.schema.json');
+  let nextId = nextCustomId(ledger, customFile.components.map((component) => component.id));
+  const outDir = getFlagValue(args, '--out') ?? (statSync(input).isDirectory() ? input : dirname(input));
+  const packages: PackagedFile[] = [];
+  let failed = 0;
+
+  console.log(`Packaging ${archives.length} archive(s) as ${COMPONENT_TYPE_META[type].displayName}\n`);
+  for (const archive of archives) {
+    const componentName = name ?? getPackageName(archive);
+    const existing = customFile.components.find((component) => component.name === componentName);
+    if (existing) {
+      console.log(`  ⚠ ${archive}: skipped, component ${existing.id} is already named "${componentName}"`);
+      continue;
+    }
+
+    try {
+      const packaged = await packageArchive(archive, type, componentName, outDir);
+      if (customFile.components.some((component) => component.file_name === packaged.fileName)) {
+        throw new PackageError(`${archive}: a custom component already uses ${packaged.fileName}`);
+      }
+
+      const family = getNameFamily(componentName);
+      const component = {
+        id: nextId++,
+        name: componentName,
+        type,
+        version: getFlagValue(args, '--version') ?? getNameVersion(componentName) ?? '1.0.0',
+        version_code: versionCodeFlag ? Number(versionCodeFlag) : (familyCodes.get(family) ?? 0) + 1,
+        file_name: packaged.fileName,
+        file_md5: packaged.md5,
+        file_size: packaged.size,
+      };
+      familyCodes.set(family, Math.max(familyCodes.get(family) ?? 0, component.version_code));
+      customFile.components.push(component);
+      ledger.ids[component.id] = { source: 'custom', name: component.name };
+      packages.push(packaged);
+
+      const action = packaged.repacked ? 'packaged as' : 'already in layout,';
+      console.log(`  ✓ ${archive}: ${action} ${packaged.output}`);
+      console.log(
+        `    ID ${component.id}, version ${component.version} (version_code ${component.version_code}), ` +
+          `${packaged.size} bytes, MD5 ${packaged.md5}`
+      );
+      if (packaged.ignored.length > 0) {
+        console.log(`    Left out ${packaged.ignored.length} file(s): ${truncate(packaged.ignored.join(', '), 100)}`);
+      }
+    } catch (e) {
+      if (!(e instanceof PackageError)) throw e;
+      console.error(`  ✗ ${e.message}`);
+      failed++;
+    }
+  }
+
+  if (packages.length > 0) {
+    const uploads = packages.map((packaged) => packaged.output);
+    writeFileSync(config.customComponentsFile, JSON.stringify(customFile, null, 2) + '\n');
+    writeIdLedger(config.idLedgerFile, ledger);
+    console.log(`\n✓ Added ${packages.length} component(s) to ${config.customComponentsFile}`);
+    if (type === ComponentType.GPU_DRIVERS) {
+      console.log(`\nDeclare the GPUs each driver runs on in ${config.gpuRangesFile}, citing where the range is documented.`);
+    }
+
+    let uploaded = false;
+    if (hasFlag(args, '--upload')) {
+      console.log(`\nUploading ${uploads.length} file(s) to the ${config.githubRelease} release...`);
+      uploaded = uploadToRelease(config, uploads);
+      console.log(uploaded ? '✓ Uploaded' : '✗ Upload failed');
+    }
+    if (!uploaded) {
+      console.log('\nUpload the files, then run the build:');
+      console.log('```bash');
+      console.log(getUploadCommand(config, uploads));
+      console.log('npm run build');
+      console.log('```');
+    }
+
+    // Local files are only removed once the release has them
+    if (hasFlag(args, '--clean')) {
+      if (uploaded) {
+        for (const packaged of packages) {
+          rmSync(packaged.output, { force: true });
+          rmSync(packaged.source, { force: true });
+        }
+        console.log(`\n✓ Removed ${packages.length} source archive(s) and their packages`);
+      } else {
+        console.log('\n⚠ --clean skipped: the files were not uploaded');
+      }
+    }
+
+    if (hasFlag(args, '--build')) {
+      console.log('');
+      await build(resolved, []);
+    }
+  }
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
 /**
  * Main entry point
  */
@@ -281,30 +743,66 @@ async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const command = args[0] || 'build';
 
-  // Use default config
-  const config = DEFAULT_CONFIG;
+  // Defaults < config file < profile < environment < flags
+  const resolved = resolveConfig(args.slice(1));
+  const config = resolved.config;
 
   switch (command) {
     case 'build':
-      await build(config);
+      await build(resolved, args.slice(1));
       break;
     case 'validate':
       await validate(config);
       break;
     case 'sync':
-      console.log('Sync command not yet implemented');
+      await sync(config, args.slice(1));
       break;
     case 'diff':
-      console.log('Diff command not yet implemented');
+      await diff(config, args.slice(1));
+      break;
+    case 'serve':
+      await serve(config, args.slice(1));
+      break;
+    case 'imagefs':
+      await imagefs(config, args.slice(1));
+      break;
+    case 'ids':
+      await ids(config, args.slice(1));
+      break;
+    case 'xml-changelog':
+      await xmlChangelog(config, args.slice(1));
+      break;
+    case 'package':
+      await packageCommand(resolved, args.slice(1));
+      break;
+    case 'verify-assets':
+      await verifyAssetsCommand(config, args.slice(1));
+      break;
+    case 'inspect':
+      await inspectCommand(config, args.slice(1));
+      break;
+    case 'config':
+      console.log(formatResolvedConfig(resolved));
       break;
     default:
       console.log(`Unknown command: ${command}`);
-      console.log('Available commands: build, validate, sync, diff');
+      console.log('Available commands: build, validate, sync, diff, serve, imagefs, package, verify-assets, inspect, xml-changelog, ids, config');
       process.exit(1);
   }
 }
 
 main().catch((error) => {
-  console.error('Error:', error);
+  if (
+    error instanceof SchemaValidationError ||
+    error instanceof ImagefsError ||
+    error instanceof ConfigError ||
+    error instanceof XmlSyntaxError ||
+    error instanceof IdLedgerError ||
+    error instanceof PackageError
+  ) {
+    console.error(`Error: ${error.message}`);
+  } else {
+    console.error('Error:', error);
+  }
   process.exit(1);
 });
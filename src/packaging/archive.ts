@@ -0,0 +1,118 @@
+import { execFileSync } from 'child_process';
+import { chmodSync, copyFileSync, lstatSync, mkdirSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, dirname, join } from 'path';
+
+/**
+ * A file inside an extracted archive
+ */
+export interface ArchiveFile {
+  path: string; // Path inside the archive, "/"-separated, without a leading "./"
+  fullPath: string; // Where it was extracted to
+}
+
+/**
+ * Archive formats the packager reads, longest extension first
+ */
+const ARCHIVE_EXTENSIONS = ['.tar.gz', '.tar.xz', '.tar.zst', '.tgz', '.txz', '.tzst', '.tar', '.zip'];
+
+/**
+ * Thrown when an archive cannot be read or written
+ */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+/**
+ * File name without its archive extension, or null when the file is not a supported archive
+ */
+export function getArchiveBaseName(fileName: string): string | null {
+  const lower = fileName.toLowerCase();
+  const extension = ARCHIVE_EXTENSIONS.find((ext) => lower.endsWith(ext));
+  return extension ? basename(fileName).slice(0, -extension.length) : null;
+}
+
+function run(command: string, args: string[]): void {
+  try {
+    execFileSync(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (e) {
+    const error = e as { code?: string; stderr?: Buffer; message: string };
+    if (error.code === 'ENOENT') {
+      throw new ArchiveError(`${command} is not installed`);
+    }
+    throw new ArchiveError(`${command} failed: ${error.stderr?.toString().trim() || error.message}`);
+  }
+}
+
+/**
+ * Extract an archive into a new temporary directory
+ * The caller removes the directory when done
+ */
+export function extractArchive(archivePath: string): string {
+  const dir = mkdtempSync(join(tmpdir(), 'package-'));
+  const lower = archivePath.toLowerCase();
+
+  try {
+    if (lower.endsWith('.zip')) {
+      run('unzip', ['-q', '-o', archivePath, '-d', dir]);
+    } else if (lower.endsWith('.zst') || lower.endsWith('.tzst')) {
+      run('tar', ['-I', 'zstd', '-xf', archivePath, '-C', dir]);
+    } else {
+      // tar detects gzip and xz compression itself
+      run('tar', ['-xf', archivePath, '-C', dir]);
+    }
+  } catch (e) {
+    rmSync(dir, { recursive: true, force: true });
+    throw e;
+  }
+  return dir;
+}
+
+/**
+ * List the regular files under an extracted archive, in path order
+ * Symbolic links are not followed
+ */
+export function listFiles(dir: string): ArchiveFile[] {
+  const files: ArchiveFile[] = [];
+
+  const walk = (current: string, prefix: string) => {
+    for (const name of readdirSync(current).sort()) {
+      const fullPath = join(current, name);
+      const stat = lstatSync(fullPath);
+      if (stat.isDirectory()) {
+        walk(fullPath, `${prefix}${name}/`);
+      } else if (stat.isFile()) {
+        files.push({ path: `${prefix}${name}`, fullPath });
+      }
+    }
+  };
+
+  walk(dir, '');
+  return files;
+}
+
+/**
+ * Write files to a .tzst (zstd-compressed tar) with root ownership
+ * `entries` maps each path inside the archive to the file to store there
+ */
+export function packTzst(entries: { source: string; target: string }[], outputPath: string): void {
+  const stage = mkdtempSync(join(tmpdir(), 'package-stage-'));
+  chmodSync(stage, 0o755); // The package root is extracted with this mode
+
+  try {
+    for (const entry of entries) {
+      const target = join(stage, ...entry.target.split('/'));
+      mkdirSync(dirname(target), { recursive: true });
+      copyFileSync(entry.source, target);
+    }
+
+    const tarPath = join(stage, '..', `${basename(stage)}.tar`);
+    run('tar', ['--owner=root', '--group=root', '--sort=name', '-cf', tarPath, '-C', stage, '.']);
+    run('zstd', ['-q', '-f', '--rm', tarPath, '-o', outputPath]);
+  } finally {
+    rmSync(stage, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,151 @@
+import { existsSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import type { ComponentRegistry } from '../registry/registry.js';
+import type { ComponentTypeValue } from '../types/index.js';
+import { COMPONENT_TYPE_META } from '../types/index.js';
+import { hashFile } from '../sync/verify.js';
+import { loadJson } from '../utils/json.js';
+import { ArchiveError, extractArchive, listFiles } from './archive.js';
+import { describeLayoutMismatch, PACKAGE_LAYOUTS } from './layouts.js';
+
+/**
+ * A file inside a component archive
+ */
+export interface ContentEntry {
+  path: string;
+  size: number;
+  md5: string;
+}
+
+/**
+ * Recorded contents of one component's archive
+ */
+export interface ContentsListing {
+  name: string;
+  file_md5: string; // MD5 of the archive the listing was taken from
+  files: ContentEntry[];
+}
+
+/**
+ * Content listings file structure (data/component_contents.json)
+ */
+export interface ContentsFile {
+  $schema?: string;
+  components: Record<string, ContentsListing>; // Component ID -> listing
+}
+
+/**
+ * What a component archive contains and how it fits its type's layout
+ */
+export interface ArchiveInspection {
+  fileName: string;
+  md5: string;
+  components: { id: number; name: string; type: ComponentTypeValue; fileMd5: string }[]; // Empty when no component uses the file
+  files: ContentEntry[];
+  problems: string[]; // Unreadable archive, layout mismatches, or an MD5 other than the component's
+}
+
+// Component archives are tar+zstd
+const COMPONENT_ARCHIVE = /\.(tzst|tar\.zst)$/i;
+
+/**
+ * List a tar+zstd archive and check it against the layout of a component type
+ * Without a type only the listing is produced
+ */
+export async function inspectArchive(
+  path: string,
+  type: ComponentTypeValue | null
+): Promise<Pick<ArchiveInspection, 'files' | 'problems'>> {
+  let dir: string;
+  try {
+    dir = extractArchive(path);
+  } catch (e) {
+    if (!(e instanceof ArchiveError)) throw e;
+    return { files: [], problems: [`cannot be read: ${e.message}`] };
+  }
+
+  try {
+    const extracted = listFiles(dir);
+    const files: ContentEntry[] = [];
+    for (const file of extracted) {
+      files.push({ path: file.path, size: statSync(file.fullPath).size, md5: (await hashFile(file.fullPath)).md5 });
+    }
+
+    const problems =
+      type === null
+        ? []
+        : describeLayoutMismatch(PACKAGE_LAYOUTS[type].arrange(extracted)).map(
+            (problem) => `${COMPONENT_TYPE_META[type].displayName} layout: ${problem}`
+          );
+    return { files, problems };
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Inspect every tar+zstd archive in a directory
+ * Archives are matched to components by release asset name; the first component's type picks the layout
+ */
+export async function inspectArchives(registry: ComponentRegistry, dir: string): Promise<ArchiveInspection[]> {
+  const byName = new Map<string, ArchiveInspection['components']>();
+  for (const info of registry.getAllOriginalInfo()) {
+    const component = registry.getById(info.id)!;
+    byName.set(info.githubFileName, [
+      ...(byName.get(info.githubFileName) ?? []),
+      { id: info.id, name: info.name, type: component.type, fileMd5: info.fileMd5 },
+    ]);
+  }
+
+  const fileNames = existsSync(dir)
+    ? readdirSync(dir)
+        .filter((name) => COMPONENT_ARCHIVE.test(name) && statSync(join(dir, name)).isFile())
+        .sort()
+    : [];
+
+  const inspections: ArchiveInspection[] = [];
+  for (const fileName of fileNames) {
+    const path = join(dir, fileName);
+    const components = byName.get(fileName) ?? [];
+    const { md5 } = await hashFile(path);
+    const { files, problems } = await inspectArchive(path, components[0]?.type ?? null);
+
+    const mismatched = components.filter((component) => component.fileMd5.toLowerCase() !== md5);
+    if (mismatched.length > 0) {
+      problems.unshift(`MD5 ${md5} differs from ${mismatched.map((component) => `component ${component.id}`).join(', ')}`);
+    }
+    inspections.push({ fileName, md5, components, files, problems });
+  }
+
+  return inspections;
+}
+
+/**
+ * Record the listing of every inspected archive whose MD5 matches its components
+ * Returns the number of listings added or updated
+ */
+export function recordContents(path: string, inspections: ArchiveInspection[]): number {
+  const file = loadJson<ContentsFile>(path, 'data/component_contents.schema.json');
+  let recorded = 0;
+
+  for (const inspection of inspections) {
+    for (const component of inspection.components) {
+      if (component.fileMd5.toLowerCase() !== inspection.md5 || inspection.files.length === 0) {
+        continue;
+      }
+      const existing = file.components[component.id];
+      if (existing?.file_md5 === inspection.md5 && existing.name === component.name) {
+        continue;
+      }
+      file.components[component.id] = { name: component.name, file_md5: inspection.md5, files: inspection.files };
+      recorded++;
+    }
+  }
+
+  file.components = Object.fromEntries(
+    Object.entries(file.components).sort(([a], [b]) => Number(a) - Number(b))
+  );
+  writeFileSync(path, JSON.stringify(file, null, 2) + '\n');
+  return recorded;
+}
@@ -0,0 +1,233 @@
+import { closeSync, openSync, readSync } from 'fs';
+
+import type { ComponentTypeValue } from '../types/index.js';
+import { COMPONENT_TYPE_META, ComponentType } from '../types/index.js';
+import type { ArchiveFile } from './archive.js';
+
+/**
+ * Where each file of a source archive goes in the component package
+ */
+export interface Arrangement {
+  entries: { source: string; target: string; from: string }[]; // `from` is the path in the source archive
+  ignored: string[]; // Source paths the layout has no place for
+  problems: string[]; // Why the archive cannot be packaged
+}
+
+/**
+ * Archive layout the app expects for a component type
+ */
+export interface PackageLayout {
+  description: string;
+  arrange(files: ArchiveFile[]): Arrangement;
+}
+
+// PE machine types of 64-bit Windows code (x64, ARM64, ARM64EC/ARM64X) and 32-bit x86
+const PE_64BIT_MACHINES = new Set([0x8664, 0xaa64, 0xa641]);
+const PE_32BIT_MACHINES = new Set([0x014c]);
+
+// Directory names release archives use for 64-bit and 32-bit DLLs
+const DIR_64BIT = /^(x64|x86_64|amd64|arm64|arm64ec|aarch64|system32|lib64)$/i;
+const DIR_32BIT = /^(x32|x86|i386|i686|syswow64|lib32)$/i;
+
+/**
+ * Read the machine type from a PE (Windows executable or DLL) header
+ * Returns null when the file is not a PE image
+ */
+export function readPeMachine(path: string): number | null {
+  const header = Buffer.alloc(4096);
+  const fd = openSync(path, 'r');
+  let size: number;
+  try {
+    size = readSync(fd, header, 0, header.length, 0);
+  } finally {
+    closeSync(fd);
+  }
+
+  if (size < 64 || header.toString('latin1', 0, 2) !== 'MZ') {
+    return null;
+  }
+  const peOffset = header.readUInt32LE(0x3c);
+  if (peOffset + 6 > size || header.toString('latin1', peOffset, peOffset + 4) !== 'PE\0\0') {
+    return null;
+  }
+  return header.readUInt16LE(peOffset + 4);
+}
+
+/**
+ * Windows directory a DLL belongs in: system32 for 64-bit code, syswow64 for 32-bit
+ * Falls back to the directory names when the file is not a readable PE image
+ */
+function getDllDirectory(file: ArchiveFile): 'system32' | 'syswow64' | null {
+  const machine = readPeMachine(file.fullPath);
+  if (machine !== null) {
+    if (PE_64BIT_MACHINES.has(machine)) return 'system32';
+    if (PE_32BIT_MACHINES.has(machine)) return 'syswow64';
+    return null;
+  }
+
+  const dirs = file.path.split('/').slice(0, -1);
+  if (dirs.some((dir) => DIR_64BIT.test(dir))) return 'system32';
+  if (dirs.some((dir) => DIR_32BIT.test(dir))) return 'syswow64';
+  return null;
+}
+
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function emptyArrangement(): Arrangement {
+  return { entries: [], ignored: [], problems: [] };
+}
+
+/**
+ * Add a file to an arrangement, reporting two source files that land on the same target
+ */
+function place(result: Arrangement, file: ArchiveFile, target: string): void {
+  const existing = result.entries.find((entry) => entry.target === target);
+  if (existing) {
+    result.problems.push(`${existing.from} and ${file.path} both go to ${target}`);
+    return;
+  }
+  result.entries.push({ source: file.fullPath, target, from: file.path });
+}
+
+/**
+ * Place a DLL in system32/ or syswow64/; returns false for other files and unknown architectures
+ */
+function placeDll(result: Arrangement, file: ArchiveFile): boolean {
+  const dir = /\.dll$/i.test(file.path) ? getDllDirectory(file) : null;
+  if (dir) {
+    place(result, file, `${dir}/${fileName(file.path).toLowerCase()}`);
+  }
+  return dir !== null;
+}
+
+/**
+ * Windows DLLs sorted into system32/ and syswow64/ by architecture
+ * `required` are package paths that must be present (e.g. system32/d3d11.dll)
+ */
+function dllTree(description: string, required: string[]): PackageLayout {
+  return {
+    description,
+    arrange(files) {
+      const result = emptyArrangement();
+      for (const file of files) {
+        if (!placeDll(result, file)) {
+          result.ignored.push(file.path);
+        }
+      }
+
+      const present = new Set(result.entries.map((entry) => entry.target));
+      const missing = required.filter((path) => !present.has(path));
+      if (missing.length > 0) {
+        result.problems.push(`missing ${missing.join(', ')}`);
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Every file kept at its path in the source archive
+ */
+function asIs(description: string): PackageLayout {
+  return {
+    description,
+    arrange(files) {
+      const result = emptyArrangement();
+      for (const file of files) {
+        place(result, file, file.path);
+      }
+      if (files.length === 0) {
+        result.problems.push('archive is empty');
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Expected package layout per component type
+ */
+export const PACKAGE_LAYOUTS: Record<ComponentTypeValue, PackageLayout> = {
+  [ComponentType.BOX64_FEX]: {
+    description: 'FEX and WoW64 DLLs in system32/, or the box64 binary in usr/local/bin/',
+    arrange(files) {
+      const result = emptyArrangement();
+      for (const file of files) {
+        if (placeDll(result, file)) {
+          continue;
+        }
+        if (fileName(file.path) === 'box64') {
+          place(result, file, 'usr/local/bin/box64');
+        } else {
+          result.ignored.push(file.path);
+        }
+      }
+      if (result.entries.length === 0) {
+        result.problems.push('no FEX or WoW64 DLL and no box64 binary');
+      }
+      return result;
+    },
+  },
+  [ComponentType.GPU_DRIVERS]: {
+    description: 'The Vulkan driver as libvulkan_freedreno.so at the root',
+    arrange(files) {
+      const result = emptyArrangement();
+      const libraries = files.filter((file) => /\.so$/i.test(file.path));
+      const driver =
+        libraries.length === 1 ? libraries[0] : libraries.find((file) => fileName(file.path) === 'libvulkan_freedreno.so');
+
+      if (driver) {
+        place(result, driver, 'libvulkan_freedreno.so');
+      } else {
+        result.problems.push(
+          libraries.length === 0
+            ? 'no .so file'
+            : `several .so files and none is libvulkan_freedreno.so: ${libraries.map((file) => file.path).join(', ')}`
+        );
+      }
+      result.ignored.push(...files.filter((file) => file !== driver).map((file) => file.path));
+      return result;
+    },
+  },
+  [ComponentType.DXVK]: dllTree('64-bit DLLs in system32/, 32-bit DLLs in syswow64/', [
+    'system32/d3d11.dll',
+    'system32/dxgi.dll',
+  ]),
+  [ComponentType.VKD3D]: dllTree('64-bit DLLs in system32/, 32-bit DLLs in syswow64/', ['system32/d3d12.dll']),
+  [ComponentType.GAMES]: asIs('Files at their paths in the source archive'),
+  [ComponentType.LIBRARIES]: asIs('Files at their paths in the source archive, as the install steps reference them'),
+  [ComponentType.STEAM]: asIs('Files at their paths in the source archive'),
+};
+
+/**
+ * Parse a component type given as a number or a type name (e.g. "2" or "drivers")
+ */
+export function parseComponentType(value: string): ComponentTypeValue | null {
+  for (const [type, meta] of Object.entries(COMPONENT_TYPE_META)) {
+    if (value === type || value.toLowerCase() === meta.name) {
+      return Number(type) as ComponentTypeValue;
+    }
+  }
+  return null;
+}
+
+/**
+ * How a package differs from its layout: the layout's problems, files it has
+ * no place for and files that are in the wrong place
+ */
+export function describeLayoutMismatch(result: Arrangement): string[] {
+  return [
+    ...result.problems,
+    ...result.ignored.map((path) => `${path} is not part of the layout`),
+    ...result.entries.filter((entry) => entry.target !== entry.from).map((entry) => `${entry.from} should be ${entry.target}`),
+  ];
+}
+
+/**
+ * Whether an arrangement keeps every file where it is, i.e. the archive is already in the layout
+ */
+export function isInLayout(result: Arrangement): boolean {
+  return describeLayoutMismatch(result).length === 0;
+}
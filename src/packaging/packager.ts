@@ -0,0 +1,105 @@
+import { copyFileSync, rmSync, statSync } from 'fs';
+import { basename, join, resolve } from 'path';
+
+import type { ComponentTypeValue } from '../types/index.js';
+import { COMPONENT_TYPE_META } from '../types/index.js';
+import { toGitHubAssetName } from '../utils/github.js';
+import { hashFile } from '../sync/verify.js';
+import { ArchiveError, extractArchive, getArchiveBaseName, listFiles, packTzst } from './archive.js';
+import { isInLayout, PACKAGE_LAYOUTS } from './layouts.js';
+
+/**
+ * Thrown when a source archive cannot be packaged as a component
+ */
+export class PackageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PackageError';
+  }
+}
+
+/**
+ * A component package written from a source archive
+ */
+export interface PackagedFile {
+  source: string;
+  output: string; // The .tzst to upload; the source itself when it was already in the layout
+  fileName: string; // Release asset name
+  repacked: boolean;
+  ignored: string[]; // Source paths left out of the package
+  md5: string;
+  size: string;
+}
+
+/**
+ * Package a release archive in the layout of a component type
+ * The package is written to `outDir` as `<name>.tzst`, with the name made a
+ * valid release asset name. A .tzst already in the layout is used as it is.
+ */
+export async function packageArchive(
+  archivePath: string,
+  type: ComponentTypeValue,
+  name: string,
+  outDir: string
+): Promise<PackagedFile> {
+  if (getArchiveBaseName(archivePath) === null) {
+    throw new PackageError(`${archivePath}: not a supported archive (.zip, .tar, .tar.gz, .tar.xz, .tar.zst, .tzst)`);
+  }
+
+  const layout = PACKAGE_LAYOUTS[type];
+  const fileName = toGitHubAssetName(`${name}.tzst`);
+  const output = join(outDir, fileName);
+
+  let dir: string;
+  try {
+    dir = extractArchive(archivePath);
+  } catch (e) {
+    throw e instanceof ArchiveError ? new PackageError(`${archivePath}: ${e.message}`) : e;
+  }
+
+  let repacked = false;
+  let ignored: string[];
+  try {
+    const arrangement = layout.arrange(listFiles(dir));
+    if (arrangement.problems.length > 0) {
+      throw new PackageError(
+        `${archivePath} does not fit the ${COMPONENT_TYPE_META[type].displayName} layout (${layout.description}): ` +
+          arrangement.problems.join('; ')
+      );
+    }
+    ignored = arrangement.ignored;
+
+    if (/\.tzst$/i.test(archivePath) && isInLayout(arrangement)) {
+      if (resolve(archivePath) !== resolve(output)) {
+        copyFileSync(archivePath, output);
+      }
+    } else {
+      try {
+        packTzst(arrangement.entries, output);
+      } catch (e) {
+        throw e instanceof ArchiveError ? new PackageError(`${archivePath}: ${e.message}`) : e;
+      }
+      repacked = true;
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  const { md5 } = await hashFile(output);
+  return {
+    source: archivePath,
+    output,
+    fileName,
+    repacked,
+    ignored,
+    md5,
+    size: statSync(output).size.toString(),
+  };
+}
+
+/**
+ * Component name for a source archive: its file name without the archive extension
+ */
+export function getPackageName(archivePath: string): string {
+  return getArchiveBaseName(basename(archivePath)) ?? basename(archivePath);
+}
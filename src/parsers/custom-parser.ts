@@ -1,11 +1,12 @@
-import { readFileSync, existsSync } from 'fs';
+import { existsSync } from 'fs';
 import type { Component, ComponentTypeValue } from '../types/index.js';
 import type { BuildConfig } from '../types/index.js';
+import { loadJson } from '../utils/json.js';
 
 /**
  * Custom component definition in custom_components.json
  */
-interface CustomComponentDefinition {
+export interface CustomComponentDefinition {
   id: number;
   name: string;
   type: number;
@@ -21,7 +22,8 @@ interface CustomComponentDefinition {
 /**
  * Custom components file structure
  */
-interface CustomComponentsFile {
+export interface CustomComponentsFile {
+  $schema?: string;
   version: string;
   description: string;
   components: CustomComponentDefinition[];
@@ -39,8 +41,7 @@ export function parseCustomComponents(
     return [];
   }
 
-  const content = readFileSync(filePath, 'utf-8');
-  const data = JSON.parse(content) as CustomComponentsFile;
+  const data = loadJson<CustomComponentsFile>(filePath, 'data/custom_components.schema.json');
 
   const components: Component[] = [];
 
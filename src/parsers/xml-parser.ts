@@ -1,5 +1,6 @@
 import { readFileSync } from 'fs';
-import type { Component, ComponentTypeValue } from '../types/index.js';
+import type { Component, ComponentTypeValue, DepInfo, SubData } from '../types/index.js';
+import { readXml, XmlSyntaxError } from './xml-reader.js';
 
 /**
  * Raw entry structure from XML JSON
@@ -18,11 +19,11 @@ interface XmlEntry {
   status: number;
   is_steam: number;
   display_name: string;
-  base: null;
+  base: unknown;
   blurb: string | null;
   framework: string | null;
   framework_type: string | null;
-  sub_data: unknown | null;
+  sub_data: SubData | null;
   upgrade_msg: string | null;
   fileType: number;
 }
@@ -31,7 +32,7 @@ interface XmlEntry {
  * Wrapper structure in XML
  */
 interface XmlComponentWrapper {
-  depInfo: null;
+  depInfo: DepInfo | null;
   entry: XmlEntry;
   isBase: boolean;
   isDep: boolean;
@@ -40,71 +41,227 @@ interface XmlComponentWrapper {
   version: string;
 }
 
+/**
+ * Why an XML entry was skipped or needed salvaging
+ */
+export interface XmlDiagnostic {
+  entry: string; // name attribute of the <string> element
+  line: number;
+  reason: string;
+  kept: boolean; // true when the component was still parsed, e.g. salvaged
+}
+
+/**
+ * Components parsed from the XML, with a diagnostic for every entry that was skipped or had problems
+ */
+export interface XmlParseResult {
+  components: Component[];
+  diagnostics: XmlDiagnostic[];
+}
+
+/**
+ * XML parsing options
+ */
+export interface XmlParseOptions {
+  salvage: boolean; // Recover the required fields from entries whose JSON does not parse
+}
+
+// Fields a component cannot be built without
+const REQUIRED_FIELDS = ['id', 'name', 'type', 'file_name', 'file_md5', 'file_size', 'download_url'] as const;
+
+// Scalar entry fields salvage mode looks for
+const SALVAGED_FIELDS = [
+  ...REQUIRED_FIELDS,
+  'version',
+  'version_code',
+  'logo',
+  'display_name',
+  'blurb',
+  'is_steam',
+  'framework',
+  'framework_type',
+  'upgrade_msg',
+  'fileType',
+] as const;
+
 /**
  * Parse the sp_winemu XML file and extract components
  */
-export function parseXmlFile(filePath: string): Component[] {
+export function parseXmlFile(filePath: string, options: XmlParseOptions = { salvage: true }): XmlParseResult {
   const content = readFileSync(filePath, 'utf-8');
-  return parseXmlContent(content);
+  try {
+    return parseXmlContent(content, options);
+  } catch (e) {
+    if (e instanceof XmlSyntaxError) {
+      throw new XmlSyntaxError(e.reason, e.line, e.column, filePath);
+    }
+    throw e;
+  }
 }
 
 /**
  * Parse XML content string
+ * Throws XmlSyntaxError when the document itself is not well-formed
  */
-export function parseXmlContent(content: string): Component[] {
+export function parseXmlContent(content: string, options: XmlParseOptions = { salvage: true }): XmlParseResult {
   const components: Component[] = [];
+  const diagnostics: XmlDiagnostic[] = [];
 
-  // Match all <string name="...">JSON</string> elements
-  const pattern = /<string name="([^"]*)">(\{.*?\})<\/string>/gs;
-  let match;
+  // Each component is a <string name="...">JSON</string> element of the root <map>
+  for (const element of readXml(content).children) {
+    if (element.name !== 'string') {
+      continue;
+    }
 
-  while ((match = pattern.exec(content)) !== null) {
-    const componentName = match[1];
-    const jsonStr = match[2];
+    // One diagnostic per entry, listing every problem found
+    const problems = [...element.problems];
+    const diagnose = (kept: boolean) =>
+      diagnostics.push({ entry: element.attributes.name ?? '', line: element.line, reason: problems.join('; '), kept });
+    const skip = (reason: string) => {
+      problems.push(reason);
+      diagnose(false);
+    };
 
+    let wrapper: XmlComponentWrapper;
     try {
-      const wrapper = JSON.parse(jsonStr) as XmlComponentWrapper;
-      const entry = wrapper.entry;
-
-      // Validate required fields
-      if (!entry || typeof entry.id !== 'number' || !entry.name) {
+      wrapper = JSON.parse(element.text) as XmlComponentWrapper;
+    } catch (e) {
+      const reason = `malformed JSON (${(e as Error).message})`;
+      const salvaged = options.salvage ? salvageWrapper(element.text) : null;
+      if (!salvaged) {
+        skip(options.salvage ? `${reason}, required fields not recoverable` : reason);
         continue;
       }
+      problems.push(`${reason}, salvaged ${Object.keys(salvaged.entry).length} fields`);
+      wrapper = salvaged;
+    }
 
-      // Validate type is 1-7
-      if (entry.type < 1 || entry.type > 7) {
-        console.warn(`Skipping component with invalid type: ${entry.name} (type=${entry.type})`);
-        continue;
-      }
+    const entry = wrapper?.entry;
 
-      const component: Component = {
-        id: entry.id,
-        name: entry.name,
-        type: entry.type as ComponentTypeValue,
-        version: entry.version || '1.0.0',
-        version_code: entry.version_code || 1,
-        file_name: entry.file_name,
-        file_md5: entry.file_md5,
-        file_size: String(entry.file_size), // Convert to string
-        download_url: entry.download_url,
-        logo: entry.logo,
-        display_name: entry.display_name ?? '', // Preserve empty strings from XML
-      };
-
-      // Add optional fields if present
-      if (entry.blurb) {
-        component.blurb = entry.blurb;
-      }
-      if (entry.is_steam !== undefined) {
-        component.is_steam = entry.is_steam;
-      }
+    // Validate required fields
+    const missing = entry ? REQUIRED_FIELDS.filter((field) => entry[field] === undefined || entry[field] === null) : [];
+    if (!entry || missing.length > 0) {
+      skip(entry ? `missing ${missing.join(', ')}` : 'no "entry" object');
+      continue;
+    }
+    if (typeof entry.id !== 'number' || !entry.name) {
+      skip('id must be a number and name must not be empty');
+      continue;
+    }
 
-      components.push(component);
-    } catch (e) {
-      console.warn(`   Warning: Malformed JSON for component "${componentName}" - add to custom_components.json if needed`);
+    // Validate type is 1-7
+    if (entry.type < 1 || entry.type > 7) {
+      skip(`invalid type ${entry.type}`);
+      continue;
+    }
+
+    components.push(toComponent(wrapper));
+    if (problems.length > 0) {
+      diagnose(true);
     }
   }
 
-  return components;
+  return { components, diagnostics };
 }
 
+/**
+ * Format a diagnostic for the console
+ */
+export function formatXmlDiagnostic(diagnostic: XmlDiagnostic): string {
+  const action = diagnostic.kept ? 'kept' : 'skipped';
+  return `XML line ${diagnostic.line} "${diagnostic.entry}" ${action}: ${diagnostic.reason}`;
+}
+
+/**
+ * Build a component from a parsed XML wrapper
+ */
+function toComponent(wrapper: XmlComponentWrapper): Component {
+  const entry = wrapper.entry;
+
+  const component: Component = {
+    id: entry.id,
+    name: entry.name,
+    type: entry.type as ComponentTypeValue,
+    version: entry.version || '1.0.0',
+    version_code: entry.version_code || 1,
+    file_name: entry.file_name,
+    file_md5: entry.file_md5,
+    file_size: String(entry.file_size), // Convert to string
+    download_url: entry.download_url,
+    logo: entry.logo,
+    display_name: entry.display_name ?? '', // Preserve empty strings from XML
+  };
+
+  // Add optional fields if present
+  if (entry.blurb) {
+    component.blurb = entry.blurb;
+  }
+  if (entry.is_steam !== undefined) {
+    component.is_steam = entry.is_steam;
+  }
+
+  // Dependency and base metadata
+  component.is_base = wrapper.isBase === true;
+  component.is_dep = wrapper.isDep === true;
+  component.base = entry.base ?? null;
+  component.framework = entry.framework ?? null;
+  component.framework_type = entry.framework_type ?? null;
+  component.sub_data = entry.sub_data ?? null;
+  component.file_type = entry.fileType ?? 0;
+  component.upgrade_msg = entry.upgrade_msg ?? null;
+  component.dep_info = wrapper.depInfo ?? null;
+  component.dependencies = wrapper.depInfo?.f ?? [];
+
+  return component;
+}
+
+/**
+ * Recover the scalar entry fields and the isBase/isDep flags from JSON that does not parse
+ * Nested objects (base, sub_data, depInfo) are not recovered. Returns null
+ * when a required field cannot be found.
+ */
+function salvageWrapper(json: string): XmlComponentWrapper | null {
+  // The entry object follows depInfo, whose install steps reuse names such as "file_name"
+  const entryStart = json.indexOf('"entry"');
+  if (entryStart === -1) {
+    return null;
+  }
+  const text = json.slice(entryStart);
+
+  const entry: Record<string, unknown> = {};
+  for (const field of SALVAGED_FIELDS) {
+    const value = findScalar(text, field);
+    if (value !== undefined) {
+      entry[field] = value;
+    }
+  }
+  if (REQUIRED_FIELDS.some((field) => entry[field] === undefined || entry[field] === null)) {
+    return null;
+  }
+
+  return {
+    depInfo: null,
+    entry: entry as unknown as XmlEntry,
+    isBase: findScalar(text, 'isBase') === true,
+    isDep: findScalar(text, 'isDep') === true,
+    name: String(entry.name),
+    state: 'None',
+    version: String(entry.version ?? ''),
+  };
+}
+
+/**
+ * Find the first `"key": <string|number|boolean|null>` in a JSON fragment
+ */
+function findScalar(text: string, key: string): unknown {
+  const pattern = new RegExp(`"${key}"\\s*:\\s*("(?:[^"\\\\]|\\\\.)*"|-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?|true|false|null)`);
+  const match = pattern.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return undefined;
+  }
+}
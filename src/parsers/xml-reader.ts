@@ -0,0 +1,205 @@
+/**
+ * Element of a parsed XML document
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Decoded text and CDATA content directly inside the element
+  line: number; // 1-based line of the start tag
+  problems: string[]; // Recoverable problems in the element's own tag and text
+}
+
+/**
+ * Thrown when a document is not well-formed XML
+ */
+export class XmlSyntaxError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly line: number,
+    public readonly column: number,
+    file?: string
+  ) {
+    super(`${file ? `${file}: ` : ''}${reason} at line ${line}, column ${column}`);
+    this.name = 'XmlSyntaxError';
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  gt: '>',
+  lt: '<',
+  quot: '"',
+};
+
+const NAME = /[A-Za-z_:][\w.:-]*/y;
+const ATTRIBUTE = /\s+([A-Za-z_:][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+
+/**
+ * Decode the predefined and numeric character references in a text or attribute value
+ * Unknown or malformed references (such as a bare "&") are kept as written and passed to `onInvalid`
+ */
+export function decodeXmlEntities(value: string, onInvalid: (reference: string) => void = () => {}): string {
+  return value.replace(/&(#?[\w.:-]*);?/g, (reference, body: string) => {
+    if (reference.endsWith(';')) {
+      if (body in NAMED_ENTITIES) {
+        return NAMED_ENTITIES[body];
+      }
+      const code = /^#x[0-9a-f]+$/i.test(body)
+        ? parseInt(body.slice(2), 16)
+        : /^#\d+$/.test(body)
+          ? parseInt(body.slice(1), 10)
+          : NaN;
+      if (code <= 0x10ffff) {
+        return String.fromCodePoint(code);
+      }
+    }
+    onInvalid(reference);
+    return reference;
+  });
+}
+
+/**
+ * Parse an XML document into its root element
+ *
+ * Supports the subset used by Android shared preferences and similar data
+ * files: elements, attributes, text, CDATA sections, comments, processing
+ * instructions and a DOCTYPE without an internal subset. Character
+ * references are decoded. Invalid references are kept as written and noted in
+ * the element's `problems`; anything else that is not well-formed throws.
+ */
+export function readXml(content: string): XmlElement {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  // 0-based index of the line containing an offset
+  const lineIndex = (at: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= at) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  };
+  const fail = (message: string, at: number): never => {
+    const line = lineIndex(at);
+    throw new XmlSyntaxError(message, line + 1, at - lineStarts[line] + 1);
+  };
+  const decode = (value: string, element: XmlElement): string =>
+    decodeXmlEntities(value, (reference) => element.problems.push(`invalid character reference "${reference}"`));
+  const skipPast = (terminator: string, at: number, what: string): number => {
+    const end = content.indexOf(terminator, at);
+    if (end === -1) {
+      fail(`Unterminated ${what}`, at);
+    }
+    return end + terminator.length;
+  };
+
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  while (pos < content.length) {
+    const lt = content.indexOf('<', pos);
+    const textEnd = lt === -1 ? content.length : lt;
+
+    if (textEnd > pos) {
+      const text = content.slice(pos, textEnd);
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += decode(text, stack[stack.length - 1]);
+      } else if (text.trim() !== '') {
+        fail('Text outside the root element', pos + text.search(/\S/));
+      }
+      pos = textEnd;
+      continue;
+    }
+
+    if (content.startsWith('<?', pos)) {
+      pos = skipPast('?>', pos, 'processing instruction');
+    } else if (content.startsWith('<!--', pos)) {
+      pos = skipPast('-->', pos, 'comment');
+    } else if (content.startsWith('<![CDATA[', pos)) {
+      if (stack.length === 0) {
+        fail('CDATA section outside the root element', pos);
+      }
+      const end = skipPast(']]>', pos, 'CDATA section');
+      stack[stack.length - 1].text += content.slice(pos + 9, end - 3);
+      pos = end;
+    } else if (content.startsWith('<!DOCTYPE', pos)) {
+      pos = skipPast('>', pos, 'DOCTYPE');
+    } else if (content.startsWith('</', pos)) {
+      NAME.lastIndex = pos + 2;
+      const name = NAME.exec(content)?.[0];
+      const open = stack.pop();
+      if (!name || !open || open.name !== name) {
+        fail(open ? `Expected </${open.name}>` : 'Closing tag without an open element', pos);
+      }
+      const close = /\s*>/y;
+      close.lastIndex = pos + 2 + name!.length;
+      if (!close.test(content)) {
+        fail(`Malformed closing tag </${name}>`, pos);
+      }
+      pos = close.lastIndex;
+    } else {
+      NAME.lastIndex = pos + 1;
+      const name = NAME.exec(content)?.[0];
+      if (!name) {
+        fail('Invalid tag name', pos + 1);
+      }
+
+      const element: XmlElement = {
+        name: name!,
+        attributes: {},
+        children: [],
+        text: '',
+        line: lineIndex(pos) + 1,
+        problems: [],
+      };
+      let cursor = pos + 1 + name!.length;
+      for (;;) {
+        ATTRIBUTE.lastIndex = cursor;
+        const attribute = ATTRIBUTE.exec(content);
+        if (!attribute) break;
+        if (attribute[1] in element.attributes) {
+          fail(`Duplicate attribute "${attribute[1]}"`, cursor);
+        }
+        element.attributes[attribute[1]] = decode(attribute[2] ?? attribute[3], element);
+        cursor = ATTRIBUTE.lastIndex;
+      }
+
+      const end = /\s*(\/?)>/y;
+      end.lastIndex = cursor;
+      const tagEnd = end.exec(content);
+      if (!tagEnd) {
+        fail(`Malformed start tag <${name}>`, cursor);
+      }
+      pos = end.lastIndex;
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail('More than one root element', pos);
+      } else {
+        root = element;
+      }
+      if (tagEnd![1] !== '/') {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`Unclosed element <${stack[stack.length - 1].name}>`, content.length);
+  }
+  if (!root) {
+    fail('No root element', content.length);
+  }
+  return root!;
+}
@@ -0,0 +1,161 @@
+import type { Component } from '../types/index.js';
+
+/**
+ * Parsed, comparable version
+ */
+export interface ParsedVersion {
+  parts: number[]; // e.g. [26, 0, 0, 8] for "v26.0.0_R8"
+  pre: number | null; // Pre-release number ("b2" -> 2), null for releases
+}
+
+/**
+ * Family/version override for a component whose name cannot be parsed
+ * (data/families.json, keyed by component ID)
+ */
+export interface FamilyOverride {
+  family?: string;
+  version?: string;
+}
+
+/**
+ * Family overrides file structure
+ */
+export interface FamiliesFile {
+  $schema?: string;
+  overrides: Record<string, FamilyOverride>;
+}
+
+// "26", "v26.0.0", "2.7.1", "3.0b", "V20.5"
+const VERSION_TOKEN = /^v?(\d+(?:\.\d+)*)([a-z])?$/i;
+// "R8" (release), "r12"
+const REVISION_TOKEN = /^r(\d+)$/i;
+// "b1", "beta2", "rc1"
+const PRERELEASE_TOKEN = /^(?:b|beta|rc|alpha)(\d*)$/i;
+
+/**
+ * Split a component name into tokens ("Turnip_v26.0.0_R8.tzst" -> ["Turnip", "v26.0.0", "R8"])
+ */
+function tokenize(name: string): string[] {
+  return name
+    .replace(/\.(tzst|tar\.zst|zst)$/i, '')
+    .split(/[-_ ]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Split a name into its family tokens and a parsed version
+ * Returns null for the version when the name holds no version token
+ */
+function splitName(name: string): { family: string[]; version: ParsedVersion | null } {
+  const family: string[] = [];
+  const parts: number[] = [];
+  let pre: number | null = null;
+  let found = false;
+
+  for (const token of tokenize(name)) {
+    const version = VERSION_TOKEN.exec(token);
+    const revision = REVISION_TOKEN.exec(token);
+    const prerelease = PRERELEASE_TOKEN.exec(token);
+
+    if (version) {
+      parts.push(...version[1].split('.').map(Number));
+      if (version[2]) {
+        // Letter suffix: "3.0b" sorts after "3.0a"
+        parts.push(version[2].toLowerCase().charCodeAt(0) - 96);
+      }
+      found = true;
+    } else if (revision && found) {
+      parts.push(Number(revision[1]));
+    } else if (prerelease && found) {
+      pre = Number(prerelease[1] || 0);
+    } else {
+      family.push(token.toLowerCase());
+    }
+  }
+
+  return { family, version: found ? { parts, pre } : null };
+}
+
+/**
+ * Parse a version string ("1.0.0", "v26.0.0_R8", "3.0b")
+ */
+export function parseVersion(version: string): ParsedVersion | null {
+  return splitName(version).version;
+}
+
+/**
+ * Version string found in a component name, e.g. "26.0.0.8" for "Turnip_v26.0.0_R8"
+ * Returns null when the name holds no version
+ */
+export function getNameVersion(name: string): string | null {
+  const { version } = splitName(name);
+  return version ? version.parts.join('.') : null;
+}
+
+/**
+ * Family found in a component name, e.g. "turnip_gmem" for "Turnip_v26.0.0_R8_Gmem"
+ */
+export function getNameFamily(name: string): string {
+  const { family } = splitName(name);
+  return family.length > 0 ? family.join('_') : name.toLowerCase();
+}
+
+/**
+ * Compare two parsed versions (negative when a < b)
+ */
+export function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
+  const length = Math.max(a.parts.length, b.parts.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (a.parts[i] ?? 0) - (b.parts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+
+  // A release sorts after its pre-releases
+  if (a.pre === null && b.pre === null) return 0;
+  if (a.pre === null) return 1;
+  if (b.pre === null) return -1;
+  return a.pre - b.pre;
+}
+
+/**
+ * Family of a component: its name without version tokens, per type
+ * e.g. "Turnip_v26.0.0_R8_Gmem" -> "turnip_gmem"
+ */
+export function getFamily(component: Component, override?: FamilyOverride): string {
+  if (override?.family) {
+    return override.family;
+  }
+
+  return getNameFamily(component.name);
+}
+
+/**
+ * Version of a component used for ordering within its family
+ * Prefers the override, then the version in the name, then the `version` field
+ */
+export function getComponentVersion(component: Component, override?: FamilyOverride): ParsedVersion {
+  const fromOverride = override?.version ? parseVersion(override.version) : null;
+  return (
+    fromOverride ??
+    splitName(component.name).version ??
+    parseVersion(component.version) ?? { parts: [], pre: null }
+  );
+}
+
+/**
+ * Compare two components of the same family (negative when a is older)
+ * Falls back to version_code, then ID, when versions are equal
+ */
+export function compareComponents(
+  a: Component,
+  b: Component,
+  overrides: Record<string, FamilyOverride> = {}
+): number {
+  const byVersion = compareVersions(
+    getComponentVersion(a, overrides[a.id]),
+    getComponentVersion(b, overrides[b.id])
+  );
+  if (byVersion !== 0) return byVersion;
+  if (a.version_code !== b.version_code) return a.version_code - b.version_code;
+  return a.id - b.id;
+}
@@ -0,0 +1,165 @@
+/**
+ * GPU model a driver can be declared for
+ */
+export interface GpuModel {
+  name: string; // e.g. "Adreno 750"
+  aliases?: string[]; // e.g. ["8 Gen 3"]
+}
+
+/**
+ * GPU family, published as components/drivers/<id>
+ */
+export interface GpuFamily {
+  id: string; // e.g. "adreno7xx"
+  name: string; // e.g. "Adreno 7xx"
+  models: GpuModel[]; // Oldest first; ranges follow this order
+}
+
+/**
+ * GPUs a driver supports and where that is documented
+ */
+export interface GpuRangeDeclaration {
+  range: string; // e.g. "Adreno 7xx, not 8 Gen 3"
+  source: string; // Release notes, README or test report the range comes from
+}
+
+/**
+ * GPU ranges file structure (data/gpu_ranges.json)
+ */
+export interface GpuRangesFile {
+  $schema?: string;
+  families: GpuFamily[];
+  drivers: Record<string, GpuRangeDeclaration>; // Component ID -> range declaration
+}
+
+/**
+ * Thrown when a range declaration cannot be parsed
+ */
+export class GpuRangeError extends Error {
+  constructor(
+    public readonly range: string,
+    reason: string
+  ) {
+    super(`invalid GPU range "${range}": ${reason}`);
+    this.name = 'GpuRangeError';
+  }
+}
+
+// "Adreno 6xx–7xx", "Adreno 6xx - 7xx", "Adreno 650..750"
+const RANGE_SEPARATOR = /\s*(?:–|—|-|\.\.)\s*/;
+// "not 8 Gen 3", "!Adreno 610"
+const NEGATION = /^(?:not\s+|!\s*)/i;
+
+/**
+ * Normalize a GPU name for lookup ("Adreno 7xx" -> "adreno7xx")
+ */
+export function normalizeGpuName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Resolve a family or model name to its [first, last] index in the flattened model list
+ */
+function resolveName(name: string, families: GpuFamily[]): [number, number] | null {
+  const key = normalizeGpuName(name);
+  let index = 0;
+
+  for (const family of families) {
+    if (normalizeGpuName(family.id) === key || normalizeGpuName(family.name) === key) {
+      return [index, index + family.models.length - 1];
+    }
+    for (const model of family.models) {
+      if ([model.name, ...(model.aliases ?? [])].some((n) => normalizeGpuName(n) === key)) {
+        return [index, index];
+      }
+      index++;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve one clause (without "not") to model indexes
+ * The end of a span may be abbreviated: "Adreno 6xx–7xx" reads as "Adreno 6xx–Adreno 7xx"
+ */
+function resolveTerm(range: string, term: string, families: GpuFamily[]): number[] {
+  const ends = term.split(RANGE_SEPARATOR);
+  if (ends.length > 2) {
+    throw new GpuRangeError(range, `"${term}" has more than one range separator`);
+  }
+  if (ends.some((end) => end === '')) {
+    throw new GpuRangeError(range, `"${term}" is missing a range end`);
+  }
+
+  const start = resolveName(ends[0], families);
+  if (!start) {
+    throw new GpuRangeError(range, `unknown GPU "${ends[0]}"`);
+  }
+  if (ends.length === 1) {
+    return span(start[0], start[1]);
+  }
+
+  const end =
+    resolveName(ends[1], families) ??
+    resolveName(ends[0].replace(/\S+$/, ends[1]), families);
+  if (!end) {
+    throw new GpuRangeError(range, `unknown GPU "${ends[1]}"`);
+  }
+  if (end[1] < start[0]) {
+    throw new GpuRangeError(range, `"${term}" ends before it starts`);
+  }
+  return span(start[0], end[1]);
+}
+
+function span(first: number, last: number): number[] {
+  return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+}
+
+/**
+ * Parse a range declaration into the names of the GPU models it supports
+ *
+ * A declaration is a comma-separated list of clauses. Each clause is a
+ * family ("Adreno 7xx"), a model or alias ("Adreno 750", "8 Gen 3") or a span
+ * of either ("Adreno 6xx–7xx"), optionally prefixed with "not". Positive
+ * clauses are combined; with none, every known GPU is included. Negated
+ * clauses are then removed.
+ */
+export function parseGpuRange(range: string, families: GpuFamily[]): Set<string> {
+  const models = families.flatMap((family) => family.models.map((model) => model.name));
+  const included = new Set<number>();
+  const excluded = new Set<number>();
+  let hasPositive = false;
+
+  for (const clause of range.split(',').map((c) => c.trim())) {
+    if (clause === '') {
+      throw new GpuRangeError(range, 'empty clause');
+    }
+
+    const negated = NEGATION.test(clause);
+    const indexes = resolveTerm(range, clause.replace(NEGATION, ''), families);
+    for (const index of indexes) {
+      (negated ? excluded : included).add(index);
+    }
+    hasPositive ||= !negated;
+  }
+
+  const supported = new Set<string>();
+  models.forEach((name, index) => {
+    if ((!hasPositive || included.has(index)) && !excluded.has(index)) {
+      supported.add(name);
+    }
+  });
+
+  if (supported.size === 0) {
+    throw new GpuRangeError(range, 'matches no GPU');
+  }
+  return supported;
+}
+
+/**
+ * Whether a set of supported models covers any model of a family
+ */
+export function supportsFamily(supported: Set<string>, family: GpuFamily): boolean {
+  return family.models.some((model) => supported.has(model.name));
+}
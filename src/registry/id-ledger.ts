@@ -0,0 +1,233 @@
+import { writeFileSync } from 'fs';
+
+import type { Component } from '../types/index.js';
+
+/**
+ * Who issues an ID: the upstream XML or custom_components.json
+ */
+export type IdSource = 'upstream' | 'custom';
+
+/**
+ * Inclusive ID range
+ */
+export interface IdRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * An issued ID
+ */
+export interface IdLedgerEntry {
+  source: IdSource;
+  name: string; // Current name, or the last name before the component was removed
+  retired?: boolean; // The component was removed; the ID is never issued again
+}
+
+/**
+ * ID ledger file structure (data/id_ledger.json)
+ */
+export interface IdLedger {
+  $schema?: string;
+  ranges: Record<IdSource, IdRange>; // Where new IDs of each source must fall
+  ids: Record<string, IdLedgerEntry>; // Every ID ever issued
+}
+
+/**
+ * Thrown when the ledger cannot be updated
+ */
+export class IdLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdLedgerError';
+  }
+}
+
+/**
+ * Result of recording the current components in the ledger
+ */
+export interface IdLedgerSync {
+  added: number[];
+  retired: number[];
+  renamed: number[];
+}
+
+function inRange(id: number, range: IdRange): boolean {
+  return id >= range.min && id <= range.max;
+}
+
+/**
+ * Current IDs by source
+ */
+function currentIds(xml: Component[], custom: Component[]): Map<number, { source: IdSource; name: string }> {
+  const ids = new Map<number, { source: IdSource; name: string }>();
+  for (const component of xml) {
+    ids.set(component.id, { source: 'upstream', name: component.name });
+  }
+  for (const component of custom) {
+    if (!ids.has(component.id)) {
+      ids.set(component.id, { source: 'custom', name: component.name });
+    }
+  }
+  return ids;
+}
+
+/**
+ * Find IDs used twice: an XML and a custom component sharing an ID, or duplicates within one source
+ * The upstream XML cannot be changed, so a shared ID is always resolved by moving the custom component
+ */
+export function findIdCollisions(xml: Component[], custom: Component[], ledger: IdLedger): string[] {
+  const errors: string[] = [];
+  const xmlById = new Map<number, Component>();
+  const customById = new Map<number, Component>();
+  let freeId = nextCustomId(ledger, custom.map((component) => component.id));
+
+  for (const component of xml) {
+    const existing = xmlById.get(component.id);
+    if (existing) {
+      errors.push(`ID ${component.id} is used twice in the XML ("${existing.name}" and "${component.name}")`);
+    } else {
+      xmlById.set(component.id, component);
+    }
+  }
+
+  for (const component of custom) {
+    const existing = customById.get(component.id);
+    if (existing) {
+      errors.push(
+        `ID ${component.id} is used twice in custom_components.json ("${existing.name}" and "${component.name}"); ` +
+          `move "${component.name}" to ID ${freeId++}`
+      );
+      continue;
+    }
+    customById.set(component.id, component);
+
+    const upstream = xmlById.get(component.id);
+    if (upstream) {
+      errors.push(
+        `ID ${component.id} is used by XML component "${upstream.name}" and custom component "${component.name}"; ` +
+          `move "${component.name}" in custom_components.json to ID ${freeId++}`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check the current components against the ledger
+ * Every ID must be recorded under its source, custom IDs must not reuse
+ * retired ones, and every active ledger entry must still be in use.
+ */
+export function checkIdLedger(ledger: IdLedger, xml: Component[], custom: Component[]): string[] {
+  const errors: string[] = [];
+  const ids = currentIds(xml, custom);
+  const sync = 'run `npm run ids -- sync`';
+
+  for (const [id, { source, name }] of ids) {
+    const entry = ledger.ids[id];
+    if (!entry) {
+      errors.push(
+        inRange(id, ledger.ranges[source])
+          ? `ID ${id} (${name}) is not in the ID ledger; ${sync}`
+          : `ID ${id} (${name}) is outside the ${source} range ${ledger.ranges[source].min}-${ledger.ranges[source].max}`
+      );
+    } else if (entry.source !== source) {
+      errors.push(`ID ${id} (${name}) was issued to ${entry.source} component "${entry.name}"; IDs are never reused`);
+    } else if (entry.retired && source === 'custom') {
+      errors.push(`ID ${id} (${name}) was retired from "${entry.name}"; IDs are never reused`);
+    } else if (entry.retired) {
+      errors.push(`ID ${id} (${name}) is back in the XML but retired in the ID ledger; ${sync}`);
+    }
+  }
+
+  for (const [key, entry] of Object.entries(ledger.ids)) {
+    if (!/^\d+$/.test(key)) {
+      errors.push(`ID ledger key "${key}" is not an ID`);
+    } else if (!entry.retired && !ids.has(Number(key))) {
+      errors.push(`ID ${key} (${entry.name}) is no longer defined; ${sync} to retire it`);
+    }
+  }
+
+  const { upstream, custom: customRange } = ledger.ranges;
+  if (upstream.min > upstream.max || customRange.min > customRange.max) {
+    errors.push('ID ledger ranges must have min <= max');
+  } else if (upstream.min <= customRange.max && customRange.min <= upstream.max) {
+    errors.push('ID ledger upstream and custom ranges overlap');
+  }
+
+  return errors;
+}
+
+/**
+ * Record new IDs, retire the IDs of removed components and update names
+ * Refuses new IDs outside their source's range and IDs issued to the other source
+ */
+export function syncIdLedger(ledger: IdLedger, xml: Component[], custom: Component[]): IdLedgerSync {
+  const collisions = findIdCollisions(xml, custom, ledger);
+  if (collisions.length > 0) {
+    throw new IdLedgerError(collisions.join('\n'));
+  }
+
+  const ids = currentIds(xml, custom);
+  const problems: string[] = [];
+  for (const [id, { source, name }] of ids) {
+    const entry = ledger.ids[id];
+    if (entry && entry.source !== source) {
+      problems.push(`ID ${id} (${name}) was issued to ${entry.source} component "${entry.name}"`);
+    } else if (entry?.retired && source === 'custom') {
+      problems.push(`ID ${id} (${name}) was retired from "${entry.name}"`);
+    } else if (!entry && !inRange(id, ledger.ranges[source])) {
+      const range = ledger.ranges[source];
+      problems.push(`ID ${id} (${name}) is outside the ${source} range ${range.min}-${range.max}`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new IdLedgerError(problems.join('\n'));
+  }
+
+  const result: IdLedgerSync = { added: [], retired: [], renamed: [] };
+  for (const [id, { source, name }] of ids) {
+    const entry = ledger.ids[id];
+    if (!entry) {
+      ledger.ids[id] = { source, name };
+      result.added.push(id);
+    } else {
+      if (entry.name !== name) {
+        entry.name = name;
+        result.renamed.push(id);
+      }
+      delete entry.retired; // Upstream re-added a removed component
+    }
+  }
+  for (const [key, entry] of Object.entries(ledger.ids)) {
+    if (!entry.retired && !ids.has(Number(key))) {
+      entry.retired = true;
+      result.retired.push(Number(key));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Next custom ID: above every custom ID ever issued (and any in `inUse` not yet
+ * recorded) and never below the custom range
+ */
+export function nextCustomId(ledger: IdLedger, inUse: number[] = []): number {
+  const issued = [
+    ...Object.entries(ledger.ids)
+      .filter(([, entry]) => entry.source === 'custom')
+      .map(([key]) => Number(key)),
+    ...inUse,
+  ].filter((id) => inRange(id, ledger.ranges.custom));
+  return Math.max(ledger.ranges.custom.min, ...issued.map((id) => id + 1));
+}
+
+/**
+ * Write the ledger back to its data file, IDs in numeric order
+ */
+export function writeIdLedger(path: string, ledger: IdLedger): void {
+  const ids = Object.fromEntries(Object.entries(ledger.ids).sort(([a], [b]) => Number(a) - Number(b)));
+  writeFileSync(path, JSON.stringify({ ...ledger, ids }, null, 2) + '\n');
+}
@@ -0,0 +1,63 @@
+import type { Component, LifecycleState } from '../types/index.js';
+import type { IdLedger } from './id-ledger.js';
+
+/**
+ * Lifecycle of one component; components without an entry are active
+ */
+export interface LifecycleEntry {
+  state: Exclude<LifecycleState, 'active'>;
+  replacement?: number; // ID clients should switch to
+  note?: string; // Why the component is being phased out
+}
+
+/**
+ * Lifecycle file structure (data/lifecycle.json)
+ */
+export interface LifecycleFile {
+  $schema?: string;
+  components: Record<string, LifecycleEntry>; // Component ID -> lifecycle
+}
+
+/**
+ * A retired component ID and what to use instead
+ */
+export interface RetiredComponent {
+  id: number;
+  name: string | null; // null when neither a component nor the ID ledger knows the ID
+  replacement: number | null;
+}
+
+/**
+ * Apply lifecycle states to the merged components
+ * Deprecated components are marked, retired ones are dropped. A retired ID
+ * may already be gone from its source; its name then comes from the ID ledger.
+ */
+export function applyLifecycle(
+  components: Component[],
+  lifecycle: Record<string, LifecycleEntry>,
+  ledger: IdLedger
+): { components: Component[]; retired: RetiredComponent[] } {
+  const byId = new Map(components.map((component) => [component.id, component]));
+  const retired: RetiredComponent[] = [];
+
+  for (const [key, entry] of Object.entries(lifecycle)) {
+    if (entry.state === 'retired') {
+      const id = Number(key);
+      retired.push({
+        id,
+        name: byId.get(id)?.name ?? ledger.ids[key]?.name ?? null,
+        replacement: entry.replacement ?? null,
+      });
+    }
+  }
+  const retiredIds = new Set(retired.map((entry) => entry.id));
+
+  return {
+    components: components
+      .filter((component) => !retiredIds.has(component.id))
+      .map((component): Component =>
+        lifecycle[component.id]?.state === 'deprecated' ? { ...component, lifecycle: 'deprecated' } : component
+      ),
+    retired: retired.sort((a, b) => a.id - b.id),
+  };
+}
@@ -0,0 +1,111 @@
+import { formatXmlDiagnostic, parseXmlFile } from '../parsers/xml-parser.js';
+import { parseCustomComponents } from '../parsers/custom-parser.js';
+import { ComponentRegistry } from './registry.js';
+import type { FamiliesFile } from './families.js';
+import type { GpuRangesFile } from './gpu-ranges.js';
+import { checkIdLedger, findIdCollisions } from './id-ledger.js';
+import type { IdLedger } from './id-ledger.js';
+import { applyLifecycle } from './lifecycle.js';
+import type { LifecycleFile } from './lifecycle.js';
+import { applyOverrides } from './overrides.js';
+import type { OverridesFile } from './overrides.js';
+import { getActiveImagefs } from '../imagefs/history.js';
+import type { ContentsFile } from '../packaging/inspect.js';
+import type {
+  BuildConfig,
+  ChecksumsFile,
+  Container,
+  ImagefsHistory,
+  Defaults,
+  ExecutionConfig,
+  DevicePresetsFile,
+  StaticEndpoints,
+} from '../types/index.js';
+import { loadJson } from '../utils/json.js';
+
+/**
+ * Parse all component sources and static data into a registry
+ * Progress messages are passed to `log` (silent by default)
+ */
+export function loadRegistry(
+  config: BuildConfig,
+  log: (message: string) => void = () => {}
+): ComponentRegistry {
+  // 1. Parse XML
+  log('1. Parsing XML source...');
+  const xml = parseXmlFile(config.xmlSource, { salvage: config.xmlSalvage });
+  const xmlComponents = xml.components;
+  log(`   Found ${xmlComponents.length} components from XML`);
+  for (const diagnostic of xml.diagnostics) {
+    log(`   ⚠ ${formatXmlDiagnostic(diagnostic)}`);
+  }
+
+  // Patch upstream components without editing the XML
+  const overrides = applyOverrides(xmlComponents, loadJson<OverridesFile>(config.overridesFile, 'data/overrides.schema.json').overrides);
+  const patched = overrides.results.filter((result) => result.status === 'applied').length;
+  const hidden = overrides.results.filter((result) => result.status === 'hidden').length;
+  log(`   Applied ${patched} overrides, hid ${hidden} components`);
+
+  // 2. Parse custom components
+  log('2. Loading custom components...');
+  const customComponents = parseCustomComponents(config.customComponentsFile, config);
+  log(`   Found ${customComponents.length} custom components\n`);
+
+  // Merge components; retired ones are dropped, deprecated ones marked
+  const idLedger = loadJson<IdLedger>(config.idLedgerFile, 'data/id_ledger.schema.json');
+  const lifecycle = loadJson<LifecycleFile>(config.lifecycleFile, 'data/lifecycle.schema.json').components;
+  const { components, retired } = applyLifecycle([...overrides.components, ...customComponents], lifecycle, idLedger);
+  const deprecated = components.filter((component) => component.lifecycle === 'deprecated').length;
+  log(`   Total: ${components.length} components (${deprecated} deprecated, ${retired.length} retired)\n`);
+
+  // 3. Create registry
+  log('3. Building registry...');
+  const registry = new ComponentRegistry(config);
+  registry.addComponents(components);
+  registry.xmlDiagnostics = xml.diagnostics;
+  registry.overrideResults = overrides.results;
+  registry.lifecycle = lifecycle;
+  registry.retired = retired;
+
+  registry.idErrors = [
+    ...findIdCollisions(xmlComponents, customComponents, idLedger),
+    ...checkIdLedger(idLedger, xmlComponents, customComponents),
+  ];
+  log(`   Checked IDs against the ledger (${Object.keys(idLedger.ids).length} issued)`);
+
+  // 4. Load static data
+  log('4. Loading static data...');
+  registry.containers = loadJson<Container[]>(config.containersFile, 'data/containers.schema.json');
+  log(`   Loaded ${registry.containers.length} containers`);
+
+  registry.imagefsHistory = loadJson<ImagefsHistory>(config.imagefsFile, 'data/imagefs.schema.json');
+  registry.imagefs = getActiveImagefs(registry.imagefsHistory);
+  log(`   Loaded imagefs (${registry.imagefsHistory.releases.length} releases)`);
+
+  registry.defaults = loadJson<Defaults>(config.defaultsFile, 'data/defaults.schema.json');
+  log(`   Loaded defaults`);
+
+  registry.executionConfig = loadJson<ExecutionConfig>(config.executionConfigFile, 'data/execution_config.schema.json');
+  log(`   Loaded execution config`);
+
+  registry.devicePresets = loadJson<DevicePresetsFile>(config.devicePresetsFile, 'data/device_presets.schema.json').presets;
+  log(`   Loaded ${registry.devicePresets.length} device presets`);
+
+  registry.staticEndpoints = loadJson<StaticEndpoints>(config.staticEndpointsFile, 'data/static_endpoints.schema.json');
+  log(`   Loaded static endpoints`);
+
+  registry.familyOverrides = loadJson<FamiliesFile>(config.familiesFile, 'data/families.schema.json').overrides;
+  log(`   Loaded ${Object.keys(registry.familyOverrides).length} family overrides`);
+
+  const gpuRanges = loadJson<GpuRangesFile>(config.gpuRangesFile, 'data/gpu_ranges.schema.json');
+  registry.setGpuRanges(gpuRanges.families, gpuRanges.drivers);
+  log(`   Loaded ${gpuRanges.families.length} GPU families, ${Object.keys(gpuRanges.drivers).length} driver GPU ranges`);
+
+  registry.checksums = loadJson<ChecksumsFile>(config.checksumsFile, 'data/checksums.schema.json').sha256;
+  log(`   Loaded ${Object.keys(registry.checksums).length} SHA-256 checksums`);
+
+  registry.contents = loadJson<ContentsFile>(config.contentsFile, 'data/component_contents.schema.json').components;
+  log(`   Loaded ${Object.keys(registry.contents).length} archive content listings\n`);
+
+  return registry;
+}
@@ -0,0 +1,90 @@
+import type { Component } from '../types/index.js';
+
+/**
+ * Fields an override can patch on an upstream component
+ */
+export const OVERRIDE_FIELDS = [
+  'display_name',
+  'blurb',
+  'version',
+  'version_code',
+  'file_name',
+  'file_md5',
+  'file_size',
+] as const;
+
+export type OverrideField = (typeof OVERRIDE_FIELDS)[number];
+
+/**
+ * Patch for one upstream component
+ */
+export type ComponentOverride = Partial<Pick<Component, OverrideField>> & {
+  hidden?: boolean; // Leave the component out of every endpoint
+  note?: string; // Why the override exists
+};
+
+/**
+ * Overrides file structure (data/overrides.json)
+ */
+export interface OverridesFile {
+  $schema?: string;
+  overrides: Record<string, ComponentOverride>; // Component ID -> patch
+}
+
+/**
+ * What happened to one override
+ */
+export interface OverrideResult {
+  id: number;
+  name: string | null; // null when no upstream component has the ID
+  status: 'applied' | 'hidden' | 'noop' | 'missing';
+  applied: OverrideField[]; // Fields that changed the upstream value
+  redundant: OverrideField[]; // Fields upstream already has the same value for
+}
+
+/**
+ * Apply overrides to the components parsed from the upstream XML
+ * Returns the patched components, without hidden ones, and a result per override
+ */
+export function applyOverrides(
+  components: Component[],
+  overrides: Record<string, ComponentOverride>
+): { components: Component[]; results: OverrideResult[] } {
+  const byId = new Map(components.map((component) => [component.id, component]));
+  const patched = new Map<number, Component | null>();
+  const results: OverrideResult[] = [];
+
+  for (const [key, override] of Object.entries(overrides)) {
+    const id = Number(key);
+    const component = byId.get(id);
+    if (!component) {
+      results.push({ id, name: null, status: 'missing', applied: [], redundant: [] });
+      continue;
+    }
+
+    const applied: OverrideField[] = [];
+    const redundant: OverrideField[] = [];
+    for (const field of OVERRIDE_FIELDS) {
+      if (override[field] !== undefined) {
+        (override[field] === component[field] ? redundant : applied).push(field);
+      }
+    }
+
+    if (override.hidden) {
+      patched.set(id, null);
+      results.push({ id, name: component.name, status: 'hidden', applied, redundant });
+      continue;
+    }
+
+    const patch = Object.fromEntries(applied.map((field) => [field, override[field]]));
+    patched.set(id, { ...component, ...patch });
+    results.push({ id, name: component.name, status: applied.length > 0 ? 'applied' : 'noop', applied, redundant });
+  }
+
+  return {
+    components: components
+      .map((component) => (patched.has(component.id) ? (patched.get(component.id) ?? null) : component))
+      .filter((component): component is Component => component !== null),
+    results,
+  };
+}
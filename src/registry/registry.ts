@@ -3,11 +3,29 @@ import type {
   ComponentTypeValue,
   Container,
   Imagefs,
+  ImagefsHistory,
   Defaults,
   ExecutionConfig,
+  DevicePreset,
+  StaticEndpoints,
   BuildConfig,
 } from '../types/index.js';
-import { COMPONENT_TYPE_META } from '../types/index.js';
+import {
+  COMPONENT_TYPE_META,
+  CONTAINER_FRAMEWORKS,
+  CONTAINER_FRAMEWORK_TYPES,
+  ComponentType,
+} from '../types/index.js';
+import { compareComponents, getFamily } from './families.js';
+import type { FamilyOverride } from './families.js';
+import { normalizeGpuName, parseGpuRange } from './gpu-ranges.js';
+import type { GpuFamily, GpuRangeDeclaration } from './gpu-ranges.js';
+import { validateImagefsHistory } from '../imagefs/history.js';
+import type { XmlDiagnostic } from '../parsers/xml-parser.js';
+import type { LifecycleEntry, RetiredComponent } from './lifecycle.js';
+import type { OverrideResult } from './overrides.js';
+import type { ContentsListing } from '../packaging/inspect.js';
+import { toGitHubAssetName } from '../utils/github.js';
 
 /**
  * Info about a component's original CDN URL (for downloading missing files)
@@ -16,8 +34,53 @@ export interface OriginalComponentInfo {
   id: number;
   name: string;
   originalFileName: string; // Original file_name from XML (may have spaces)
-  githubFileName: string; // GitHub-compatible file_name (spaces replaced with dots)
+  githubFileName: string; // Release asset name GitHub gives file_name (see toGitHubAssetName)
   originalDownloadUrl: string; // Original CDN URL from XML
+  fileMd5: string; // Expected MD5 of the file
+  fileSize: string; // Expected size in bytes
+}
+
+/**
+ * A file a container needs on the release: its main archive or its sub_data file
+ */
+export interface ContainerAssetInfo {
+  containerId: number;
+  containerName: string;
+  kind: 'file' | 'sub_file';
+  fileName: string;
+  fileMd5: string;
+  fileSize: string | null; // null for sub files (size not recorded)
+}
+
+/**
+ * Entries that share a name, a release asset name or an MD5
+ */
+export interface RegistryCollision {
+  kind: 'name' | 'file_name' | 'md5';
+  value: string;
+  entries: string[]; // e.g. 'component 236 ("Torchlight II.tzst")'
+  servesWrongFile: boolean; // The entries point at different files, so one of them gets the wrong one
+}
+
+/**
+ * Describe a collision for validation output
+ */
+export function describeCollision(collision: RegistryCollision): string {
+  const subject = {
+    name: `Component name "${collision.value}"`,
+    file_name: `Release asset "${collision.value}"`,
+    md5: `File with MD5 ${collision.value}`,
+  }[collision.kind];
+  const files = collision.servesWrongFile ? ' with different files' : '';
+  return `${subject} is used by ${collision.entries.join(', ')}${files}`;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  }
+  return groups;
 }
 
 /**
@@ -30,9 +93,22 @@ export class ComponentRegistry {
   private originalComponentInfo: Map<number, OriginalComponentInfo> = new Map();
 
   public containers: Container[] = [];
-  public imagefs: Imagefs | null = null;
+  public imagefs: Imagefs | null = null; // Active release of imagefsHistory
+  public imagefsHistory: ImagefsHistory | null = null;
   public defaults: Defaults | null = null;
   public executionConfig: ExecutionConfig | null = null;
+  public devicePresets: DevicePreset[] = [];
+  public staticEndpoints: StaticEndpoints | null = null;
+  public familyOverrides: Record<string, FamilyOverride> = {};
+  public gpuFamilies: GpuFamily[] = [];
+  public gpuRanges: Record<string, GpuRangeDeclaration> = {};
+  public checksums: Record<string, string> = {}; // MD5 -> SHA-256 of the same file
+  public contents: Record<string, ContentsListing> = {}; // Component ID -> files in its archive
+  public xmlDiagnostics: XmlDiagnostic[] = []; // XML entries that were skipped or salvaged
+  public idErrors: string[] = []; // ID collisions and ID ledger problems found while loading
+  public overrideResults: OverrideResult[] = []; // What each data/overrides.json entry did
+  public lifecycle: Record<string, LifecycleEntry> = {}; // Deprecated and retired components by ID
+  public retired: RetiredComponent[] = []; // Retired IDs, dropped from the components
   public config: BuildConfig;
 
   constructor(config: BuildConfig) {
@@ -45,11 +121,11 @@ export class ComponentRegistry {
   }
 
   /**
-   * Convert file name to GitHub-compatible format (spaces -> dots)
-   * GitHub release assets replace spaces with dots automatically
+   * Whether a data file URL points at a file under the CDN base the data is written against
    */
-  private toGitHubFileName(fileName: string): string {
-    return fileName.replace(/ /g, '.');
+  private isCdnUrl(url: string): boolean {
+    const base = this.config.dataCdnBaseUrl;
+    return url.startsWith(`${base}/`) && url.length > base.length + 1;
   }
 
   /**
@@ -76,7 +152,7 @@ export class ComponentRegistry {
 
     // Store original info for missing file detection
     const originalFileName = component.file_name;
-    const githubFileName = this.toGitHubFileName(originalFileName);
+    const githubFileName = toGitHubAssetName(originalFileName);
 
     this.originalComponentInfo.set(component.id, {
       id: component.id,
@@ -84,6 +160,8 @@ export class ComponentRegistry {
       originalFileName,
       githubFileName,
       originalDownloadUrl: component.download_url,
+      fileMd5: component.file_md5,
+      fileSize: component.file_size,
     });
 
     // Rewrite download URL to GitHub CDN with a GitHub-compatible filename
@@ -96,7 +174,10 @@ export class ComponentRegistry {
 
     this.components.set(component.id, rewrittenComponent);
     this.componentsByType.get(component.type)!.push(rewrittenComponent);
-    this.componentsByName.set(component.name, rewrittenComponent);
+    // Shared names are reported by findCollisions; the first keeps the name
+    if (!this.componentsByName.has(component.name)) {
+      this.componentsByName.set(component.name, rewrittenComponent);
+    }
   }
 
   /**
@@ -180,6 +261,68 @@ export class ComponentRegistry {
     });
   }
 
+  /**
+   * Get the family of a component (see families.ts)
+   */
+  getFamily(component: Component): string {
+    return getFamily(component, this.familyOverrides[component.id]);
+  }
+
+  /**
+   * Group components of a type into families, newest member first
+   * Families are returned in name order
+   */
+  getFamilies(type: ComponentTypeValue): Map<string, Component[]> {
+    const families = new Map<string, Component[]>();
+
+    for (const component of this.getByType(type)) {
+      const family = this.getFamily(component);
+      if (!families.has(family)) {
+        families.set(family, []);
+      }
+      families.get(family)!.push(component);
+    }
+
+    const sorted = new Map<string, Component[]>();
+    for (const name of [...families.keys()].sort()) {
+      sorted.set(
+        name,
+        families.get(name)!.sort((a, b) => compareComponents(b, a, this.familyOverrides))
+      );
+    }
+    return sorted;
+  }
+
+  /**
+   * Set the GPU families and fill in gpu_range for every declared driver
+   */
+  setGpuRanges(families: GpuFamily[], ranges: Record<string, GpuRangeDeclaration>): void {
+    this.gpuFamilies = families;
+    this.gpuRanges = ranges;
+
+    for (const [id, declaration] of Object.entries(ranges)) {
+      const component = this.components.get(Number(id));
+      if (component) {
+        component.gpu_range = declaration.range;
+      }
+    }
+  }
+
+  /**
+   * Get the GPU models a component supports (see gpu-ranges.ts)
+   * Returns null when the component declares no GPU range
+   */
+  getSupportedGpuModels(component: Component): Set<string> | null {
+    return component.gpu_range ? parseGpuRange(component.gpu_range, this.gpuFamilies) : null;
+  }
+
+  /**
+   * Get the recorded SHA-256 of a file by its MD5
+   */
+  getSha256(md5: string): string | undefined {
+    return this.checksums[md5.toLowerCase()];
+  }
+
   /**
    * Get type metadata
    */
@@ -194,19 +337,128 @@ export class ComponentRegistry {
     return Array.from(this.originalComponentInfo.values());
   }
 
+  /**
+   * Get every file the containers need on the release (for missing file detection)
+   */
+  getContainerAssets(): ContainerAssetInfo[] {
+    const assets: ContainerAssetInfo[] = [];
+
+    for (const container of this.containers) {
+      assets.push({
+        containerId: container.id,
+        containerName: container.name,
+        kind: 'file',
+        fileName: container.file_name,
+        fileMd5: container.file_md5,
+        fileSize: container.file_size,
+      });
+
+      if (container.sub_data) {
+        assets.push({
+          containerId: container.id,
+          containerName: container.name,
+          kind: 'sub_file',
+          fileName: container.sub_data.sub_file_name,
+          fileMd5: container.sub_data.sub_file_md5,
+          fileSize: null,
+        });
+      }
+    }
+
+    return assets;
+  }
+
+  /**
+   * Find components sharing a name, and release assets (component, container,
+   * sub and imagefs files) sharing a GitHub asset name or an MD5
+   */
+  findCollisions(): RegistryCollision[] {
+    const assets: { label: string; fileName: string; md5: string }[] = [];
+    for (const info of this.originalComponentInfo.values()) {
+      const original = info.originalFileName === info.githubFileName ? '' : ` ("${info.originalFileName}")`;
+      assets.push({ label: `component ${info.id}${original}`, fileName: info.githubFileName, md5: info.fileMd5 });
+    }
+    for (const asset of this.getContainerAssets()) {
+      const label = `container ${asset.containerId}${asset.kind === 'sub_file' ? ' sub file' : ''}`;
+      assets.push({ label, fileName: toGitHubAssetName(asset.fileName), md5: asset.fileMd5 });
+    }
+    // A rollback publishes a recorded release again with the same asset; that is one file, not a collision
+    const imagefsFiles = new Set<string>();
+    for (const release of this.imagefsHistory?.releases ?? []) {
+      const label = `imagefs ${release.version} (${release.version_code})`;
+      const fileName = toGitHubAssetName(release.file_name);
+      if (!imagefsFiles.has(`${fileName}:${release.file_md5}`)) {
+        imagefsFiles.add(`${fileName}:${release.file_md5}`);
+        assets.push({ label, fileName, md5: release.file_md5 });
+      }
+    }
+
+    const collisions: RegistryCollision[] = [];
+    const differ = (md5s: string[]) => new Set(md5s.map((md5) => md5.toLowerCase())).size > 1;
+
+    for (const [name, group] of groupBy([...this.components.values()], (component) => component.name)) {
+      if (group.length > 1) {
+        collisions.push({
+          kind: 'name',
+          value: name,
+          entries: group.map((component) => `component ${component.id}`),
+          servesWrongFile: differ(group.map((component) => component.file_md5)),
+        });
+      }
+    }
+
+    for (const [fileName, group] of groupBy(assets, (asset) => asset.fileName)) {
+      if (group.length > 1) {
+        collisions.push({
+          kind: 'file_name',
+          value: fileName,
+          entries: group.map((asset) => asset.label),
+          servesWrongFile: differ(group.map((asset) => asset.md5)),
+        });
+      }
+    }
+
+    // The same file under two asset names is a duplicate upload; under one name it is reported above
+    for (const [md5, group] of groupBy(assets, (asset) => asset.md5.toLowerCase())) {
+      if (new Set(group.map((asset) => asset.fileName)).size > 1) {
+        collisions.push({
+          kind: 'md5',
+          value: md5,
+          entries: group.map((asset) => `${asset.label} as ${asset.fileName}`),
+          servesWrongFile: false,
+        });
+      }
+    }
+
+    return collisions;
+  }
+
   /**
    * Validate registry data
    */
-  validate(): { valid: boolean; errors: string[] } {
+  validate(): { valid: boolean; errors: string[]; warnings: string[] } {
     const errors: string[] = [];
+    const warnings: string[] = [];
+    const retiredById = new Map(this.retired.map((entry) => [entry.id, entry]));
+    const notFound = (id: number) => (retiredById.has(id) ? 'component is retired' : 'component not found');
 
     // Check for required data
     if (this.components.size === 0) {
       errors.push('No components loaded');
     }
 
-    if (!this.imagefs) {
+    // Shared IDs are dropped by addComponent, so they are checked while loading
+    errors.push(...this.idErrors);
+
+    // Collisions that would serve the wrong file fail; the rest are reported
+    for (const collision of this.findCollisions()) {
+      (collision.servesWrongFile ? errors : warnings).push(describeCollision(collision));
+    }
+
+    if (!this.imagefsHistory) {
       errors.push('Imagefs not loaded');
+    } else {
+      errors.push(...validateImagefsHistory(this.imagefsHistory, this.config));
     }
 
     if (this.containers.length === 0) {
@@ -221,6 +473,10 @@ export class ComponentRegistry {
       errors.push('Execution config not loaded');
     }
 
+    if (!this.staticEndpoints) {
+      errors.push('Static endpoints not loaded');
+    }
+
     // Validate each component
     for (const component of this.components.values()) {
       // Check file_size is a string
@@ -243,36 +499,225 @@ export class ComponentRegistry {
       if (!component.download_url) {
         errors.push(`Component ${component.id}: missing download_url`);
       }
+
+      // Check dependency references (by component name)
+      for (const dependency of component.dependencies ?? []) {
+        if (!this.componentsByName.has(dependency)) {
+          errors.push(`Component ${component.id} (${component.name}): dependency "${dependency}" not found`);
+        }
+      }
     }
 
-    // Validate default component references
-    if (this.defaults) {
-      if (!this.components.has(this.defaults.dxvk)) {
-        errors.push(`Default dxvk ID ${this.defaults.dxvk} not found`);
+    // Validate containers
+    const containerIds = new Set<number>();
+    for (const container of this.containers) {
+      const label = `Container ${container.id} (${container.name})`;
+
+      if (containerIds.has(container.id)) {
+        errors.push(`${label}: duplicate ID`);
       }
-      if (!this.components.has(this.defaults.vkd3d)) {
-        errors.push(`Default vkd3d ID ${this.defaults.vkd3d} not found`);
+      containerIds.add(container.id);
+
+      if (!(CONTAINER_FRAMEWORKS as readonly string[]).includes(container.framework)) {
+        errors.push(`${label}: unknown framework "${container.framework}"`);
       }
-      if (!this.components.has(this.defaults.steamClient)) {
-        errors.push(`Default steamClient ID ${this.defaults.steamClient} not found`);
+      if (!(CONTAINER_FRAMEWORK_TYPES as readonly string[]).includes(container.framework_type)) {
+        errors.push(`${label}: unknown framework_type "${container.framework_type}"`);
       }
 
-      // Validate component_ids in execution scripts
-      for (const id of this.defaults.genericComponentIds) {
-        if (!this.components.has(id)) {
-          errors.push(`Generic script component ID ${id} not found`);
+      if (!/^[a-f0-9]{32}$/i.test(container.file_md5)) {
+        errors.push(`${label}: invalid MD5 hash`);
+      }
+      // Container URLs are published as written, so the name must survive upload unchanged
+      if (toGitHubAssetName(container.file_name) !== container.file_name) {
+        errors.push(
+          `${label}: file_name "${container.file_name}" is renamed to "${toGitHubAssetName(container.file_name)}" by GitHub`
+        );
+      }
+      if (!this.isCdnUrl(container.download_url)) {
+        errors.push(`${label}: download_url is not under ${this.config.dataCdnBaseUrl}`);
+      }
+
+      const sub = container.sub_data;
+      if (sub) {
+        if (!/^[a-f0-9]{32}$/i.test(sub.sub_file_md5)) {
+          errors.push(`${label}: invalid sub_file_md5 hash`);
+        }
+        // The sub file is named after the main file's MD5
+        if (sub.sub_file_name !== `${container.file_md5}.tzst`) {
+          errors.push(`${label}: sub_file_name "${sub.sub_file_name}" should be "${container.file_md5}.tzst"`);
         }
+        if (!this.isCdnUrl(sub.sub_download_url)) {
+          errors.push(`${label}: sub_download_url is not under ${this.config.dataCdnBaseUrl}`);
+        }
+      }
+    }
+
+    // Validate recorded checksums
+    for (const md5 of Object.keys(this.checksums)) {
+      if (!/^[a-f0-9]{32}$/.test(md5)) {
+        errors.push(`Checksum key "${md5}": expected a lowercase MD5 hash`);
+      }
+    }
+
+    // Content listings describe one archive; a new file needs a new listing
+    for (const [id, listing] of Object.entries(this.contents)) {
+      const component = this.components.get(Number(id));
+      const label = `Content listing for component ${id} (${listing.name})`;
+      if (!component) {
+        warnings.push(`${label}: ${notFound(Number(id))}; remove it`);
+      } else if (this.originalComponentInfo.get(component.id)!.fileMd5.toLowerCase() !== listing.file_md5) {
+        warnings.push(`${label} is for another file; run \`npm run inspect -- <dir> --record\` with the new archive`);
+      }
+    }
+
+    // Validate component overrides; ones upstream has caught up with are reported
+    for (const result of this.overrideResults) {
+      const label = `Override for component ${result.id}${result.name ? ` (${result.name})` : ''}`;
+      if (result.status === 'missing') {
+        errors.push(
+          this.components.has(result.id)
+            ? `${label}: custom component, edit custom_components.json instead`
+            : `${label}: no upstream component with this ID`
+        );
+      } else if (result.status === 'noop') {
+        warnings.push(
+          result.redundant.length > 0
+            ? `${label} is a no-op, upstream already has the same ${result.redundant.join(', ')}; remove it`
+            : `${label} changes nothing; remove it`
+        );
+      } else if (result.redundant.length > 0) {
+        warnings.push(`${label}: upstream already has the same ${result.redundant.join(', ')}`);
+      }
+    }
+
+    // Validate family overrides reference existing components
+    for (const id of Object.keys(this.familyOverrides)) {
+      if (!this.components.has(Number(id))) {
+        errors.push(`Family override for component ${id}: ${notFound(Number(id))}`);
       }
-      for (const id of this.defaults.qualcommComponentIds) {
-        if (!this.components.has(id)) {
-          errors.push(`Qualcomm script component ID ${id} not found`);
+    }
+
+    // Validate GPU families and driver ranges
+    // Names are matched case- and space-insensitively, so each must point at one family or model
+    const gpuNames = new Map<string, string>();
+    for (const family of this.gpuFamilies) {
+      const names: [string, string][] = [
+        [family.id, family.id],
+        [family.name, family.id],
+        ...family.models.flatMap((m) => [m.name, ...(m.aliases ?? [])].map((n): [string, string] => [n, m.name])),
+      ];
+      for (const [name, owner] of names) {
+        const key = normalizeGpuName(name);
+        const existing = gpuNames.get(key);
+        if (existing !== undefined && existing !== owner) {
+          errors.push(`GPU name "${name}" is declared more than once`);
         }
+        gpuNames.set(key, owner);
+      }
+    }
+
+    for (const [id, { range }] of Object.entries(this.gpuRanges)) {
+      const component = this.components.get(Number(id));
+      if (!component) {
+        errors.push(`GPU range for component ${id}: ${notFound(Number(id))}`);
+        continue;
+      }
+      if (component.type !== ComponentType.GPU_DRIVERS) {
+        errors.push(`GPU range for component ${id} (${component.name}): not a GPU driver`);
+      }
+      try {
+        parseGpuRange(range, this.gpuFamilies);
+      } catch (error) {
+        errors.push(`GPU range for component ${id} (${component.name}): ${(error as Error).message}`);
+      }
+    }
+
+    // Validate lifecycle entries; a replacement must be something clients can switch to
+    for (const [key, entry] of Object.entries(this.lifecycle)) {
+      const id = Number(key);
+      const component = this.components.get(id);
+      const name = component?.name ?? retiredById.get(id)?.name;
+      const label = `Lifecycle of component ${key}${name ? ` (${name})` : ''}`;
+
+      if (!/^\d+$/.test(key)) {
+        errors.push(`Lifecycle key "${key}" is not an ID`);
+        continue;
+      }
+      if (!name) {
+        errors.push(`${label}: no component or ID ledger entry with this ID`);
+        continue;
+      }
+      if (entry.state === 'deprecated' && !component) {
+        errors.push(`${label}: component is no longer defined; mark it retired instead`);
+      }
+
+      if (entry.replacement === undefined) {
+        continue;
+      }
+      const replacement = this.components.get(entry.replacement);
+      if (entry.replacement === id) {
+        errors.push(`${label}: replaces itself`);
+      } else if (!replacement) {
+        errors.push(
+          retiredById.has(entry.replacement)
+            ? `${label}: replacement ${entry.replacement} is retired`
+            : `${label}: replacement ${entry.replacement} not found`
+        );
+      } else if (replacement.lifecycle === 'deprecated') {
+        warnings.push(`${label}: replacement ${entry.replacement} (${replacement.name}) is deprecated`);
+      } else if (component && replacement.type !== component.type) {
+        warnings.push(`${label}: replacement ${entry.replacement} (${replacement.name}) is a different component type`);
+      }
+    }
+
+    // Describe why an ID referenced by defaults or a preset cannot be used
+    const checkReference = (label: string, id: number) => {
+      const retired = retiredById.get(id);
+      const suggestion = (replacement: number | null | undefined) =>
+        replacement ? `; use ${replacement} instead` : '';
+      if (retired) {
+        errors.push(`${label} ${id} (${retired.name}) is retired${suggestion(retired.replacement)}`);
+      } else if (!this.components.has(id)) {
+        errors.push(`${label} ${id} not found`);
+      } else if (this.components.get(id)!.lifecycle === 'deprecated') {
+        warnings.push(`${label} ${id} is deprecated${suggestion(this.lifecycle[id]?.replacement)}`);
+      }
+    };
+
+    // Validate default component references
+    if (this.defaults) {
+      checkReference('Default dxvk ID', this.defaults.dxvk);
+      checkReference('Default vkd3d ID', this.defaults.vkd3d);
+      checkReference('Default steamClient ID', this.defaults.steamClient);
+    }
+
+    // Validate device presets
+    if (this.devicePresets.length === 0) {
+      errors.push('No device presets loaded');
+    }
+
+    const presetNames = new Set<string>();
+    for (const preset of this.devicePresets) {
+      if (presetNames.has(preset.name)) {
+        errors.push(`Device preset "${preset.name}": duplicate name`);
+      }
+      presetNames.add(preset.name);
+
+      for (const id of preset.componentIds) {
+        checkReference(`Device preset "${preset.name}": component ID`, id);
+      }
+
+      const containerId = preset.container ?? this.defaults?.container;
+      if (containerId !== undefined && !this.containers.some((c) => c.id === containerId)) {
+        errors.push(`Device preset "${preset.name}": container ${containerId} not found`);
       }
     }
 
     return {
       valid: errors.length === 0,
       errors,
+      warnings,
     };
   }
 }
@@ -0,0 +1,247 @@
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { extname, join, relative, resolve, sep } from 'path';
+
+import type { RouteMapFile } from '../types/outputs.js';
+import { formatJson, getTimestamp } from '../utils/json.js';
+
+/**
+ * Top-level directories that are part of the repository, not the API
+ */
+const NON_API_DIRS = new Set(['src', 'data', 'dist', 'node_modules']);
+
+/**
+ * Route map the build writes at the root of the generated tree
+ */
+const ROUTE_MAP_FILE = 'routes.json';
+
+/**
+ * Content types for files that have an extension (extensionless routes are JSON)
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.mp4': 'video/mp4',
+  '.png': 'image/png',
+  '.json': 'application/json; charset=utf-8',
+};
+
+/**
+ * Server options
+ */
+export interface ServeOptions {
+  root: string; // Directory holding the generated tree
+  log: (message: string) => void;
+}
+
+/**
+ * GameHub-shaped error envelope
+ */
+interface ErrorEnvelope {
+  code: number;
+  msg: string;
+  time: string;
+  data: null;
+}
+
+function isApiPath(root: string, fullPath: string): boolean {
+  const rel = relative(root, fullPath);
+  if (rel === '' || rel.startsWith('..')) {
+    return false;
+  }
+
+  const [topLevel] = rel.split(sep);
+  return !NON_API_DIRS.has(topLevel) && !topLevel.startsWith('.') && rel.includes(sep);
+}
+
+/**
+ * Resolve a request path to a file in the tree
+ * Directories resolve to their `index` file (e.g. game/getSteamHost)
+ */
+export function resolveRoute(root: string, pathname: string): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+
+  const segments = decoded.split('/').filter(Boolean);
+  if (segments.some((s) => s === '..' || s === '.')) {
+    return null;
+  }
+
+  let fullPath = resolve(root, ...segments);
+  if (!isApiPath(root, fullPath) || !existsSync(fullPath)) {
+    return null;
+  }
+
+  if (statSync(fullPath).isDirectory()) {
+    fullPath = join(fullPath, 'index');
+    if (!existsSync(fullPath) || !statSync(fullPath).isFile()) {
+      return null;
+    }
+  }
+
+  return fullPath;
+}
+
+/**
+ * Resolve a request to an endpoint with query routing to the output path answering it
+ * Missing or empty parameters take their default. Returns null for endpoints without query routing.
+ */
+export function resolveQueryRoute(routes: RouteMapFile, pathname: string, params: URLSearchParams): string | null {
+  const route = routes[pathname.replace(/^\/+|\/+$/g, '')];
+  if (!route) {
+    return null;
+  }
+
+  const key = route.query.map((name) => `${name}=${params.get(name) || route.defaults[name] || ''}`).join('&');
+  return route.routes[key] ?? route.fallback;
+}
+
+/**
+ * List every route served from the tree
+ */
+export function listRoutes(root: string): string[] {
+  const routes: string[] = [];
+
+  const walk = (dir: string) => {
+    for (const name of readdirSync(dir).sort()) {
+      const fullPath = join(dir, name);
+      if (statSync(fullPath).isDirectory()) {
+        if (dir !== root || (!NON_API_DIRS.has(name) && !name.startsWith('.'))) {
+          walk(fullPath);
+        }
+      } else if (isApiPath(root, fullPath)) {
+        routes.push(`/${relative(root, fullPath).split(sep).join('/')}`);
+      }
+    }
+  };
+
+  walk(root);
+  return routes;
+}
+
+function contentType(filePath: string, content: Buffer): string {
+  const ext = extname(filePath);
+  if (ext && CONTENT_TYPES[ext]) {
+    return CONTENT_TYPES[ext];
+  }
+
+  // Extensionless endpoints are JSON, except a few plain-text ones (e.g. the hosts file)
+  try {
+    JSON.parse(content.toString('utf-8'));
+    return 'application/json; charset=utf-8';
+  } catch {
+    return 'text/plain; charset=utf-8';
+  }
+}
+
+/**
+ * Read (and discard) the request body so POST requests complete cleanly
+ */
+async function drainBody(req: IncomingMessage): Promise<number> {
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+  }
+  return size;
+}
+
+function sendError(res: ServerResponse, status: number, msg: string): void {
+  const envelope: ErrorEnvelope = {
+    code: status,
+    msg,
+    time: getTimestamp(),
+    data: null,
+  };
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(formatJson(envelope));
+}
+
+/**
+ * Load the route map, re-reading it whenever the build rewrites it
+ * Returns a function so each request sees the current map without restarting the server
+ */
+function watchRouteMap(path: string): () => RouteMapFile {
+  let mtimeMs = -1;
+  let routes: RouteMapFile = {};
+
+  return () => {
+    if (!existsSync(path)) {
+      mtimeMs = -1;
+      return {};
+    }
+
+    const current = statSync(path).mtimeMs;
+    if (current !== mtimeMs) {
+      routes = JSON.parse(readFileSync(path, 'utf-8'));
+      mtimeMs = current;
+    }
+    return routes;
+  };
+}
+
+/**
+ * Create an HTTP server that answers the GameHub API routes from the generated tree
+ * GET and POST are treated alike; bodies and auth headers are ignored, and query
+ * strings only matter for endpoints in the route map
+ * Files and the route map are read per request, so a rebuild is served without a restart
+ */
+export function createApiServer(options: ServeOptions): Server {
+  const root = resolve(options.root);
+  const getRoutes = watchRouteMap(join(root, ROUTE_MAP_FILE));
+
+  return createServer(async (req, res) => {
+    const started = Date.now();
+    const method = req.method ?? 'GET';
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    let status: number;
+    let note = '';
+    let bodySize = 0;
+
+    try {
+      bodySize = await drainBody(req);
+
+      if (method !== 'GET' && method !== 'POST' && method !== 'HEAD') {
+        status = 405;
+        sendError(res, status, `Method not allowed: ${method}`);
+      } else {
+        const routed = resolveQueryRoute(getRoutes(), url.pathname, url.searchParams);
+        const filePath = resolveRoute(root, routed ? `/${routed}` : url.pathname);
+        if (routed) {
+          note = `  (${routed})`;
+        }
+
+        if (filePath) {
+          const content = readFileSync(filePath);
+          status = 200;
+          res.writeHead(status, {
+            'Content-Type': contentType(filePath, content),
+            'Content-Length': content.length,
+          });
+          res.end(method === 'HEAD' ? undefined : content);
+        } else {
+          status = 404;
+          note = '  ⚠ UNKNOWN ROUTE';
+          sendError(res, status, `Route not found: ${url.pathname}`);
+        }
+      }
+    } catch (error) {
+      // e.g. a file removed or half-written by a concurrent build
+      status = 500;
+      note = `  ✗ ${error instanceof Error ? error.message : String(error)}`;
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        sendError(res, status, 'Internal server error');
+      }
+    }
+
+    const query = url.search ? ` ${url.search}` : '';
+    const body = bodySize > 0 ? ` (body ${bodySize} bytes)` : '';
+    options.log(`${new Date().toISOString()} ${method} ${url.pathname}${query}${body} → ${status} ${Date.now() - started}ms${note}`);
+  });
+}
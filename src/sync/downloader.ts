@@ -0,0 +1,201 @@
+import { createReadStream, createWriteStream, existsSync, mkdirSync, renameSync, statSync, unlinkSync } from 'fs';
+import { createHash } from 'crypto';
+import { join } from 'path';
+
+import type { OriginalComponentInfo } from '../registry/registry.js';
+import type { Fetcher } from './fetcher.js';
+
+/**
+ * Options for downloading missing files
+ */
+export interface DownloadOptions {
+  downloadDir: string;
+  fetcher: Fetcher;
+  retries: number; // Attempts per file (including the first)
+  retryDelayMs: number; // Base delay between attempts (multiplied by attempt number)
+  log: (message: string) => void;
+}
+
+/**
+ * Outcome of downloading a single file
+ */
+export interface DownloadResult {
+  info: OriginalComponentInfo;
+  path: string;
+  status: 'ready' | 'failed';
+  reused: boolean; // true when a verified file was already present
+  error?: string;
+}
+
+/**
+ * Compute the MD5 of a file without loading it into memory
+ */
+export async function md5File(path: string): Promise<string> {
+  const hash = createHash('md5');
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+function fileSize(path: string): number {
+  return existsSync(path) ? statSync(path).size : 0;
+}
+
+function removeFile(path: string): void {
+  if (existsSync(path)) {
+    unlinkSync(path);
+  }
+}
+
+/**
+ * Check a local file against the registry's expected size and MD5
+ * Returns null when the file matches, or the reason it does not
+ */
+export async function verifyFile(path: string, info: OriginalComponentInfo): Promise<string | null> {
+  const expectedSize = Number(info.fileSize);
+  const actualSize = fileSize(path);
+  if (actualSize !== expectedSize) {
+    return `size mismatch (expected ${expectedSize}, got ${actualSize})`;
+  }
+
+  const actualMd5 = await md5File(path);
+  if (actualMd5.toLowerCase() !== info.fileMd5.toLowerCase()) {
+    return `MD5 mismatch (expected ${info.fileMd5}, got ${actualMd5})`;
+  }
+
+  return null;
+}
+
+/**
+ * Write a response body to a file, appending when resuming
+ */
+async function writeBody(path: string, body: AsyncIterable<Uint8Array>, append: boolean): Promise<void> {
+  const stream = createWriteStream(path, { flags: append ? 'a' : 'w' });
+
+  try {
+    for await (const chunk of body) {
+      if (!stream.write(chunk)) {
+        await new Promise<void>((resolve) => stream.once('drain', resolve));
+      }
+    }
+  } finally {
+    await new Promise<void>((resolve, reject) => {
+      stream.end((error?: Error | null) => (error ? reject(error) : resolve()));
+    });
+  }
+}
+
+/**
+ * Perform a single transfer attempt into `partPath`, resuming from its current size
+ */
+async function transfer(info: OriginalComponentInfo, partPath: string, fetcher: Fetcher): Promise<void> {
+  const expectedSize = Number(info.fileSize);
+  let offset = fileSize(partPath);
+
+  // A partial file larger than expected can never verify
+  if (offset > expectedSize) {
+    removeFile(partPath);
+    offset = 0;
+  }
+
+  if (offset === expectedSize && offset > 0) {
+    return;
+  }
+
+  const response = await fetcher.fetch(info.originalDownloadUrl, offset);
+
+  if (response.status === 416) {
+    // Range not satisfiable: the partial file does not match the remote file
+    removeFile(partPath);
+    throw new Error('HTTP 416 (discarded partial file)');
+  }
+  if (response.status !== 200 && response.status !== 206) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  if (!response.body) {
+    throw new Error('Empty response body');
+  }
+
+  // 200 means the server ignored the range request, so start over
+  await writeBody(partPath, response.body, response.status === 206);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Download a single file into the download directory under its GitHub file name
+ * Partial transfers are kept as `<name>.part` and resumed on the next attempt
+ */
+export async function downloadFile(info: OriginalComponentInfo, options: DownloadOptions): Promise<DownloadResult> {
+  const path = join(options.downloadDir, info.githubFileName);
+  const partPath = `${path}.part`;
+
+  // Already downloaded and verified?
+  if (existsSync(path)) {
+    if ((await verifyFile(path, info)) === null) {
+      return { info, path, status: 'ready', reused: true };
+    }
+    removeFile(path);
+  }
+
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= options.retries; attempt++) {
+    try {
+      await transfer(info, partPath, options.fetcher);
+
+      const problem = await verifyFile(partPath, info);
+      if (problem === null) {
+        renameSync(partPath, path);
+        return { info, path, status: 'ready', reused: false };
+      }
+
+      // Size is short: keep the partial file and resume. Anything else: start over.
+      if (fileSize(partPath) >= Number(info.fileSize)) {
+        removeFile(partPath);
+      }
+      lastError = problem;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (attempt < options.retries) {
+      options.log(`     attempt ${attempt} failed: ${lastError}, retrying...`);
+      await delay(options.retryDelayMs * attempt);
+    }
+  }
+
+  return { info, path, status: 'failed', reused: false, error: lastError };
+}
+
+/**
+ * Download every given file sequentially
+ */
+export async function downloadFiles(
+  infos: OriginalComponentInfo[],
+  options: DownloadOptions
+): Promise<DownloadResult[]> {
+  if (!existsSync(options.downloadDir)) {
+    mkdirSync(options.downloadDir, { recursive: true });
+  }
+
+  const results: DownloadResult[] = [];
+
+  for (const [index, info] of infos.entries()) {
+    options.log(`   [${index + 1}/${infos.length}] ${info.githubFileName} (ID: ${info.id})`);
+    const result = await downloadFile(info, options);
+
+    if (result.status === 'ready') {
+      options.log(`     ✓ ${result.reused ? 'already downloaded' : 'downloaded'} and verified`);
+    } else {
+      options.log(`     ✗ failed: ${result.error}`);
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
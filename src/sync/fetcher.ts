@@ -0,0 +1,43 @@
+/**
+ * Response returned by a Fetcher
+ */
+export interface FetchResponse {
+  status: number; // HTTP status (200 = full body, 206 = partial body from offset)
+  body: AsyncIterable<Uint8Array> | null;
+}
+
+/**
+ * Pluggable transport used by the sync command
+ * Implementations must honour `offset` by requesting a byte range when it is > 0
+ */
+export interface Fetcher {
+  fetch(url: string, offset: number): Promise<FetchResponse>;
+}
+
+/**
+ * Encode a download URL (original CDN URLs may contain spaces)
+ */
+export function encodeDownloadUrl(url: string): string {
+  return url.replace(/ /g, '%20');
+}
+
+/**
+ * Default fetcher using the global fetch API (follows redirects)
+ */
+export function createHttpFetcher(): Fetcher {
+  return {
+    async fetch(url: string, offset: number): Promise<FetchResponse> {
+      const headers: Record<string, string> = {};
+      if (offset > 0) {
+        headers['Range'] = `bytes=${offset}-`;
+      }
+
+      const response = await fetch(encodeDownloadUrl(url), { headers, redirect: 'follow' });
+
+      return {
+        status: response.status,
+        body: response.body as AsyncIterable<Uint8Array> | null,
+      };
+    },
+  };
+}
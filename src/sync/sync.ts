@@ -0,0 +1,104 @@
+import type { ComponentRegistry, ContainerAssetInfo, OriginalComponentInfo } from '../registry/registry.js';
+import type { BuildConfig } from '../types/index.js';
+import { checkMissingFiles, getUploadCommand } from '../utils/github.js';
+import { createHttpFetcher } from './fetcher.js';
+import type { Fetcher } from './fetcher.js';
+import { downloadFiles } from './downloader.js';
+import type { DownloadResult } from './downloader.js';
+
+/**
+ * Sync options
+ */
+export interface SyncOptions {
+  fetcher?: Fetcher; // Defaults to the HTTP fetcher
+  all?: boolean; // Download every registry file instead of only those missing on GitHub
+  retries?: number;
+  retryDelayMs?: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * Sync result
+ */
+export interface SyncReport {
+  requested: OriginalComponentInfo[];
+  ready: DownloadResult[];
+  failed: DownloadResult[];
+  missingContainerAssets: ContainerAssetInfo[]; // Not downloadable: containers have no upstream source
+  releaseChecked: boolean; // false when the GitHub release could not be read
+}
+
+/**
+ * Download the given files into `config.downloadDir` and verify them
+ */
+export async function downloadMissingFiles(
+  files: OriginalComponentInfo[],
+  config: BuildConfig,
+  options: SyncOptions = {}
+): Promise<DownloadResult[]> {
+  return downloadFiles(files, {
+    downloadDir: config.downloadDir,
+    fetcher: options.fetcher ?? createHttpFetcher(),
+    retries: options.retries ?? 3,
+    retryDelayMs: options.retryDelayMs ?? 1000,
+    log: options.log ?? ((message) => console.log(message)),
+  });
+}
+
+/**
+ * Determine which files are missing from the GitHub release and download them
+ */
+export async function syncMissingFiles(
+  registry: ComponentRegistry,
+  config: BuildConfig,
+  options: SyncOptions = {}
+): Promise<SyncReport> {
+  let requested: OriginalComponentInfo[];
+  let missingContainerAssets: ContainerAssetInfo[] = [];
+  let releaseChecked = true;
+
+  if (options.all) {
+    requested = registry.getAllOriginalInfo();
+  } else {
+    const missingFiles = checkMissingFiles(registry, config);
+    releaseChecked = missingFiles.total > 0;
+    requested = missingFiles.missing;
+    missingContainerAssets = missingFiles.missingContainerAssets;
+  }
+
+  const results = await downloadMissingFiles(requested, config, options);
+
+  return {
+    requested,
+    ready: results.filter((r) => r.status === 'ready'),
+    failed: results.filter((r) => r.status === 'failed'),
+    missingContainerAssets,
+    releaseChecked,
+  };
+}
+
+/**
+ * Print the files that are ready to upload and the upload command
+ */
+export function printReadyFiles(results: DownloadResult[], config: BuildConfig): void {
+  const ready = results.filter((r) => r.status === 'ready');
+  const failed = results.filter((r) => r.status === 'failed');
+
+  if (ready.length > 0) {
+    console.log(`\n   Ready to upload (${ready.length}):`);
+    for (const result of ready) {
+      console.log(`   - ${result.path}`);
+    }
+    console.log('\n   Upload command:');
+    console.log('   ```bash');
+    console.log(`   ${getUploadCommand(config, ready.map((r) => r.path))}`);
+    console.log('   ```');
+  }
+
+  if (failed.length > 0) {
+    console.log(`\n   Failed (${failed.length}):`);
+    for (const result of failed) {
+      console.log(`   - ${result.info.githubFileName} (ID: ${result.info.id}): ${result.error}`);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import { createReadStream, existsSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { join } from 'path';
+
+import type { ComponentRegistry } from '../registry/registry.js';
+import type { ChecksumsFile } from '../types/index.js';
+import { loadJson } from '../utils/json.js';
+
+/**
+ * A file the registry expects on the release
+ */
+export interface ExpectedAsset {
+  kind: 'component' | 'container' | 'sub_file' | 'imagefs';
+  label: string; // e.g. "component 990 (Turnip_v26.0.0_R8)"
+  fileName: string; // GitHub file name
+  fileMd5: string;
+  fileSize: string | null; // null when not recorded
+  fileSha256: string | null; // null when not recorded
+}
+
+/**
+ * Result of checking one file
+ */
+export interface AssetCheck {
+  fileName: string;
+  status: 'ok' | 'md5_mismatch' | 'size_mismatch' | 'sha256_mismatch' | 'unknown' | 'missing';
+  assets: ExpectedAsset[]; // Registry entries that use this file (empty for unknown files)
+  detail: string;
+  md5?: string; // Computed hashes, when the file was read
+  sha256?: string;
+}
+
+// Asset archives: .tzst, .tar.zst and the imagefs .zst; other local files are only checked when the registry names them
+const ASSET_FILE = /\.(tzst|zst)$/i;
+
+/**
+ * Compute the MD5 and SHA-256 of a file in one pass
+ */
+export async function hashFile(path: string): Promise<{ md5: string; sha256: string }> {
+  const md5 = createHash('md5');
+  const sha256 = createHash('sha256');
+  for await (const chunk of createReadStream(path)) {
+    md5.update(chunk as Buffer);
+    sha256.update(chunk as Buffer);
+  }
+  return { md5: md5.digest('hex'), sha256: sha256.digest('hex') };
+}
+
+/**
+ * Every file the registry expects: components, containers, container sub files
+ * and every imagefs release
+ */
+export function getExpectedAssets(registry: ComponentRegistry): ExpectedAsset[] {
+  const sha256 = (md5: string) => registry.getSha256(md5) ?? null;
+  const assets: ExpectedAsset[] = [];
+
+  for (const info of registry.getAllOriginalInfo()) {
+    assets.push({
+      kind: 'component',
+      label: `component ${info.id} (${info.name})`,
+      fileName: info.githubFileName,
+      fileMd5: info.fileMd5,
+      fileSize: info.fileSize,
+      fileSha256: sha256(info.fileMd5),
+    });
+  }
+
+  for (const asset of registry.getContainerAssets()) {
+    assets.push({
+      kind: asset.kind === 'sub_file' ? 'sub_file' : 'container',
+      label: `container ${asset.containerId} (${asset.containerName})${asset.kind === 'sub_file' ? ' sub file' : ''}`,
+      fileName: asset.fileName,
+      fileMd5: asset.fileMd5,
+      fileSize: asset.fileSize,
+      fileSha256: sha256(asset.fileMd5),
+    });
+  }
+
+  for (const release of registry.imagefsHistory?.releases ?? []) {
+    assets.push({
+      kind: 'imagefs',
+      label: `imagefs ${release.version} (${release.version_code})`,
+      fileName: release.file_name,
+      fileMd5: release.file_md5,
+      fileSize: release.file_size,
+      fileSha256: sha256(release.file_md5),
+    });
+  }
+
+  return assets;
+}
+
+/**
+ * Check one local file against each registry entry that uses its name
+ * Matching entries share one 'ok' result; every mismatching entry gets its own
+ */
+async function checkFile(path: string, fileName: string, assets: ExpectedAsset[]): Promise<AssetCheck[]> {
+  const size = statSync(path).size;
+  const sized = assets.filter((asset) => asset.fileSize === null || Number(asset.fileSize) === size);
+  const checks: AssetCheck[] = assets
+    .filter((asset) => !sized.includes(asset))
+    .map((asset) => ({
+      fileName,
+      status: 'size_mismatch',
+      assets: [asset],
+      detail: `expected ${asset.fileSize} bytes, got ${size}`,
+    }));
+  if (sized.length === 0) {
+    return checks;
+  }
+
+  const { md5, sha256 } = await hashFile(path);
+  const matching: ExpectedAsset[] = [];
+  for (const asset of sized) {
+    if (md5 !== asset.fileMd5.toLowerCase()) {
+      checks.push({
+        fileName,
+        status: 'md5_mismatch',
+        assets: [asset],
+        detail: `expected ${asset.fileMd5}, got ${md5}`,
+        md5,
+        sha256,
+      });
+    } else if (asset.fileSha256 !== null && sha256 !== asset.fileSha256) {
+      checks.push({
+        fileName,
+        status: 'sha256_mismatch',
+        assets: [asset],
+        detail: `expected ${asset.fileSha256}, got ${sha256}`,
+        md5,
+        sha256,
+      });
+    } else {
+      matching.push(asset);
+    }
+  }
+
+  if (matching.length > 0) {
+    checks.unshift({ fileName, status: 'ok', assets: matching, detail: '', md5, sha256 });
+  }
+  return checks;
+}
+
+/**
+ * Check every asset file in a directory against the registry
+ * Reports mismatched and unknown local files, and expected files that are absent
+ */
+export async function verifyAssets(registry: ComponentRegistry, dir: string): Promise<AssetCheck[]> {
+  const byName = new Map<string, ExpectedAsset[]>();
+  for (const asset of getExpectedAssets(registry)) {
+    if (!byName.has(asset.fileName)) {
+      byName.set(asset.fileName, []);
+    }
+    byName.get(asset.fileName)!.push(asset);
+  }
+
+  const localFiles = existsSync(dir)
+    ? readdirSync(dir)
+        .filter((name) => (byName.has(name) || ASSET_FILE.test(name)) && statSync(join(dir, name)).isFile())
+        .sort()
+    : [];
+
+  const checks: AssetCheck[] = [];
+  for (const fileName of localFiles) {
+    const assets = byName.get(fileName);
+    if (!assets) {
+      checks.push({ fileName, status: 'unknown', assets: [], detail: 'not referenced by the registry' });
+    } else {
+      checks.push(...(await checkFile(join(dir, fileName), fileName, assets)));
+    }
+  }
+
+  const present = new Set(localFiles);
+  for (const [fileName, assets] of [...byName].sort(([a], [b]) => a.localeCompare(b))) {
+    if (!present.has(fileName)) {
+      checks.push({ fileName, status: 'missing', assets, detail: 'no local file' });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Record the SHA-256 of every verified file in the checksums data file
+ * Returns the number of checksums added
+ */
+export function recordChecksums(path: string, checks: AssetCheck[]): number {
+  const file = loadJson<ChecksumsFile>(path, 'data/checksums.schema.json');
+  let added = 0;
+
+  for (const check of checks) {
+    if (check.status !== 'ok' || !check.md5 || !check.sha256 || file.sha256[check.md5]) {
+      continue;
+    }
+    file.sha256[check.md5] = check.sha256;
+    added++;
+  }
+
+  file.sha256 = Object.fromEntries(Object.entries(file.sha256).sort(([a], [b]) => a.localeCompare(b)));
+  writeFileSync(path, JSON.stringify(file, null, 2) + '\n');
+  return added;
+}
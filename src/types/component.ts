@@ -57,6 +57,38 @@ export const COMPONENT_TYPE_META: Record<
   },
 };
 
+/**
+ * Nested download attached to a component or container
+ */
+export interface SubData {
+  sub_file_name: string;
+  sub_download_url: string;
+  sub_file_md5: string;
+}
+
+/**
+ * Install recipe for dependency packages (XML `depInfo`, keys are minified upstream)
+ */
+export interface DepInfo {
+  a: string; // Package name
+  b: string; // Description
+  c: string; // Publisher
+  d: string; // License
+  e: string; // License URL
+  f: string[] | null; // Names of packages that must be installed first
+  g: Record<string, unknown>[]; // Install actions (install_exe, override_dll, ...)
+  h: boolean;
+  i: boolean;
+}
+
+/**
+ * Lifecycle state of a component (see data/lifecycle.json)
+ * - active: listed and downloadable
+ * - deprecated: still downloadable, but hidden from is_ui listings
+ * - retired: removed from every endpoint; its ID maps to a replacement in components/retired
+ */
+export type LifecycleState = 'active' | 'deprecated' | 'retired';
+
 /**
  * Base component - the canonical data model
  */
@@ -84,8 +116,27 @@ export interface Component {
   blurb?: string; // Description
   gpu_range?: string; // GPU compatibility info
   is_steam?: number; // 0, 1, or 2
+  lifecycle?: LifecycleState; // Absent for active components
+
+  // XML metadata (absent for custom components)
+  is_base?: boolean; // Base package required by every container
+  is_dep?: boolean; // Dependency package, installed automatically and hidden from the UI
+  base?: unknown; // Base reference (null in all known XML)
+  framework?: string | null;
+  framework_type?: string | null;
+  sub_data?: SubData | null;
+  file_type?: number; // XML `fileType`
+  upgrade_msg?: string | null;
+  dep_info?: DepInfo | null;
+  dependencies?: string[]; // Names of components this one depends on (from dep_info)
 }
 
+/**
+ * Allowed container `framework` and `framework_type` values
+ */
+export const CONTAINER_FRAMEWORKS = ['X64', 'arm64X', 'X86'] as const;
+export const CONTAINER_FRAMEWORK_TYPES = ['stable', 'proton', 'experimental'] as const;
+
 /**
  * Container - Wine/Proton build (separate entity from components)
  */
@@ -104,20 +155,51 @@ export interface Container {
   display_name: string;
 
   // Container-specific
-  framework: 'X64' | 'arm64X' | 'X86';
-  framework_type: 'stable' | 'proton' | 'experimental';
+  framework: (typeof CONTAINER_FRAMEWORKS)[number];
+  framework_type: (typeof CONTAINER_FRAMEWORK_TYPES)[number];
   is_steam: 0 | 1 | 2;
 
   // Optional nested download
-  sub_data?: {
-    sub_file_name: string;
-    sub_download_url: string;
-    sub_file_md5: string;
-  };
+  sub_data?: SubData;
 }
 
 /**
- * Imagefs - Base firmware (single entity)
+ * One firmware release in data/imagefs.json
+ */
+export interface ImagefsRelease {
+  version: string;
+  version_code: number; // Strictly increasing through the history
+  file_name: string;
+  file_md5: string;
+  file_size: string;
+  download_url: string;
+  upgrade_msg: string; // Release notes shown by the app
+}
+
+/**
+ * Firmware release history (data/imagefs.json)
+ */
+export interface ImagefsHistory {
+  $schema?: string;
+  id: number;
+  name: string;
+  logo: string;
+  display_name: string;
+  blurb: string;
+  active: number; // version_code of the published release
+  releases: ImagefsRelease[]; // Oldest first
+}
+
+/**
+ * Recorded SHA-256 checksums (data/checksums.json), keyed by the file's MD5
+ */
+export interface ChecksumsFile {
+  $schema?: string;
+  sha256: Record<string, string>;
+}
+
+/**
+ * Imagefs - Base firmware (the active release of the history)
  */
 export interface Imagefs {
   id: number;
@@ -174,10 +256,36 @@ export interface Defaults {
   vkd3d: number; // Component ID
   steamClient: number; // Component ID
   container: number; // Container ID
-  // Component IDs for execution scripts
-  genericComponentIds: number[];
-  qualcommComponentIds: number[];
-  // Execution contexts
-  genericContext: ExecutionContext;
-  qualcommContext: ExecutionContext;
+}
+
+/**
+ * Partial execution config applied on top of execution_config.json
+ */
+export interface ExecutionConfigOverrides
+  extends Partial<Omit<ExecutionConfig, 'translations' | 'controller'>> {
+  translations?: {
+    box64?: Record<string, string>;
+    fex?: Record<string, string>;
+  };
+  controller?: Partial<ExecutionConfig['controller']>;
+}
+
+/**
+ * Device preset - published as simulator/executeScript/<name>
+ */
+export interface DevicePreset {
+  name: string; // e.g. "qualcomm"
+  description?: string;
+  componentIds: number[]; // Component IDs for the execution script
+  container?: number; // Container ID (defaults.container if omitted)
+  context: ExecutionContext;
+  executionConfig?: ExecutionConfigOverrides;
+}
+
+/**
+ * Device presets file structure
+ */
+export interface DevicePresetsFile {
+  $schema?: string;
+  presets: DevicePreset[];
 }
@@ -4,6 +4,7 @@
 export interface BuildConfig {
   // Input sources
   xmlSource: string;
+  xmlSalvage: boolean; // Recover required fields from entries whose JSON is broken
   customComponentsFile: string;
 
   // Static data files
@@ -11,17 +12,31 @@ export interface BuildConfig {
   imagefsFile: string;
   defaultsFile: string;
   executionConfigFile: string;
+  devicePresetsFile: string;
+  staticEndpointsFile: string;
+  familiesFile: string;
+  gpuRangesFile: string;
+  checksumsFile: string;
+  idLedgerFile: string;
+  overridesFile: string;
+  lifecycleFile: string;
+  contentsFile: string;
 
   // Output directory
   outputDir: string;
 
+  // Endpoint options
+  componentListPageSize: number; // Components per simulator/v2/getComponentList page
+
   // GitHub configuration
   githubRepo: string;
   githubRelease: string;
 
   // URL configuration
-  cdnBaseUrl: string;
+  cdnBaseUrl: string; // Base every published asset URL points at
+  dataCdnBaseUrl: string; // Base the URLs in data/*.json are written against
   logoUrl: string;
+  allowedHosts: string[]; // Hosts generated endpoints may reference (subdomains included)
 
   // Sync options
   downloadMissing: boolean;
@@ -31,23 +46,50 @@ export interface BuildConfig {
   timestamp: string | null;
 }
 
+/**
+ * Project config file (build.config.json): BuildConfig overrides plus named profiles
+ */
+export interface ConfigFile extends Partial<BuildConfig> {
+  $schema?: string;
+  profiles?: Record<string, Partial<BuildConfig>>;
+}
+
+/**
+ * Where a resolved config value came from, lowest precedence first
+ */
+export type ConfigSource = 'default' | 'file' | 'profile' | 'env' | 'flag';
+
 /**
  * Default configuration
  */
 export const DEFAULT_CONFIG: BuildConfig = {
   xmlSource: './data/sp_winemu_all_components12.xml',
+  xmlSalvage: true,
   customComponentsFile: './data/custom_components.json',
   containersFile: './data/containers.json',
   imagefsFile: './data/imagefs.json',
   defaultsFile: './data/defaults.json',
   executionConfigFile: './data/execution_config.json',
+  devicePresetsFile: './data/device_presets.json',
+  staticEndpointsFile: './data/static_endpoints.json',
+  familiesFile: './data/families.json',
+  gpuRangesFile: './data/gpu_ranges.json',
+  checksumsFile: './data/checksums.json',
+  idLedgerFile: './data/id_ledger.json',
+  overridesFile: './data/overrides.json',
+  lifecycleFile: './data/lifecycle.json',
+  contentsFile: './data/component_contents.json',
   outputDir: './',
+  componentListPageSize: 10,
   githubRepo: 'Producdevity/gamehub-lite-api',
   githubRelease: 'Components',
   cdnBaseUrl:
     'https://github.com/Producdevity/gamehub-lite-api/releases/download/Components',
+  dataCdnBaseUrl:
+    'https://github.com/Producdevity/gamehub-lite-api/releases/download/Components',
   logoUrl:
     'https://github.com/Producdevity/gamehub-lite-api/releases/download/Components/45e60d211d35955bd045aabfded4e64b.png',
+  allowedHosts: ['github.com', 'i.ibb.co', 'i.postimg.cc', 'uxdl.bigeyes.com', 'discord.gg'],
   downloadMissing: false,
   downloadDir: './.tmp_components',
   timestamp: null,
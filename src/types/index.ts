@@ -1,3 +1,4 @@
 export * from './component.js';
 export * from './outputs.js';
 export * from './config.js';
+export * from './static.js';
@@ -1,4 +1,5 @@
 import type { ComponentTypeValue, Container, Imagefs, ExecutionConfig, ExecutionContext } from './component.js';
+import type { BaseInfo, TopPlatform, GameCircle, SimulatorTab, LoginUser, EmptyEndpointData } from './static.js';
 
 /**
  * Base API response wrapper
@@ -29,7 +30,7 @@ export interface ManifestComponent {
   file_size: string;
   file_name: string;
   logo: string;
-  is_ui: 1;
+  is_ui: 0 | 1;
 }
 
 export interface ManifestData {
@@ -73,6 +74,7 @@ export interface DownloadEntry {
   file_name: string;
   file_size: string;
   file_md5: string;
+  file_sha256?: string; // Only when recorded in data/checksums.json
 }
 
 export interface DownloadsData {
@@ -82,6 +84,74 @@ export interface DownloadsData {
 
 export type DownloadsFile = ApiResponse<DownloadsData>;
 
+// ============================================================================
+// Latest File (components/latest)
+// ============================================================================
+
+export interface LatestComponentEntry {
+  display_name: string;
+  download_url: string;
+  file_md5: string;
+  file_name: string;
+  file_size: string;
+  id: number;
+  name: string;
+  version: string;
+  version_code: number;
+}
+
+export interface LatestFamilyEntry {
+  family: string;
+  latest: LatestComponentEntry;
+  members: number;
+  type: ComponentTypeValue;
+  type_name: string;
+}
+
+export interface LatestData {
+  families: LatestFamilyEntry[];
+  total: number;
+}
+
+export type LatestFile = ApiResponse<LatestData>;
+
+// ============================================================================
+// Retired Components (components/retired)
+// ============================================================================
+
+export interface RetiredEntry {
+  id: number;
+  name: string;
+  replacement: number | null; // ID to use instead, null when there is none
+}
+
+export interface RetiredData {
+  retired: RetiredEntry[];
+  total: number;
+}
+
+export type RetiredFile = ApiResponse<RetiredData>;
+
+// ============================================================================
+// GPU Driver Manifests (components/drivers/<gpu family>)
+// ============================================================================
+
+export interface GpuManifestComponent extends ManifestComponent {
+  gpu_range: string; // Empty when the driver declares no range
+}
+
+export interface GpuManifestData {
+  type: ComponentTypeValue;
+  type_name: string;
+  display_name: string;
+  gpu_family: string;
+  gpu_models: string[];
+  total: number;
+  components: GpuManifestComponent[];
+}
+
+export type GpuManifestFile = ApiResponse<GpuManifestData>;
+
 // ============================================================================
 // GetAllComponentList (simulator/v2/getAllComponentList)
 // ============================================================================
@@ -98,7 +168,7 @@ export interface AllComponentEntry {
   download_url: string;
   file_name: string;
   display_name: string;
-  is_ui: 1;
+  is_ui: 0 | 1;
 }
 
 export interface AllComponentListData {
@@ -109,7 +179,7 @@ export interface AllComponentListData {
 export type AllComponentListFile = ApiResponseWithTime<AllComponentListData>;
 
 // ============================================================================
-// GetComponentList (simulator/v2/getComponentList) - Type 1 only
+// GetComponentList (simulator/v2/getComponentList and its pages under simulator/v2/componentList)
 // ============================================================================
 
 export interface ComponentListEntry {
@@ -130,9 +200,9 @@ export interface ComponentListEntry {
 
 export interface ComponentListData {
   list: ComponentListEntry[];
-  total: number;
-  page: 1;
-  pageSize: 10;
+  total: number; // Components of the type across all pages
+  page: number;
+  pageSize: number;
 }
 
 export type ComponentListFile = ApiResponseWithTime<ComponentListData>;
@@ -195,7 +265,7 @@ export type DefaultComponentFile = ApiResponseWithTime<DefaultComponentData>;
 export type ImagefsDetailFile = ApiResponseWithTime<Imagefs>;
 
 // ============================================================================
-// ExecuteScript (simulator/executeScript/generic & qualcomm)
+// ExecuteScript (simulator/executeScript/<preset>)
 // ============================================================================
 
 export interface ImagefsRef {
@@ -228,9 +298,9 @@ export interface ExecuteComponent {
   file_size: string;
   file_name: string;
   display_name: string;
-  is_base: 0;
-  base_type: 0;
-  is_ui: 1;
+  is_base: 0 | 1;
+  base_type: number;
+  is_ui: 0 | 1;
 }
 
 export interface ExecuteScriptData extends ExecutionConfig {
@@ -243,3 +313,57 @@ export interface ExecuteScriptData extends ExecutionConfig {
 }
 
 export type ExecuteScriptFile = ApiResponseWithTime<ExecuteScriptData>;
+
+// ============================================================================
+// Static endpoints (base/, card/, game/, user/, ...)
+// ============================================================================
+
+export type BaseInfoFile = ApiResponseWithTime<BaseInfo>;
+
+export type TopPlatformFile = ApiResponseWithTime<TopPlatform[]>;
+
+export type GameCircleListFile = ApiResponseWithTime<GameCircle[]>;
+
+export type TabListFile = ApiResponseWithTime<SimulatorTab[]>;
+
+export interface LoginData {
+  userinfo: LoginUser;
+}
+
+export type LoginFile = ApiResponseWithTime<LoginData>;
+
+export interface RefreshTokenData {
+  token: string;
+}
+
+export type RefreshTokenFile = ApiResponseWithTime<RefreshTokenData>;
+
+export interface HeartbeatStartData {
+  code: 0;
+  msg: '';
+}
+
+export type HeartbeatStartFile = ApiResponseWithTime<HeartbeatStartData>;
+
+export type EmptyEndpointFile = ApiResponseWithTime<EmptyEndpointData>;
+
+// ============================================================================
+// Route Map (routes.json)
+// ============================================================================
+
+/**
+ * Files answering one endpoint by query parameters
+ * `routes` keys are the `query` parameters in order, e.g. "type=2&page=1",
+ * with missing parameters taken from `defaults`
+ */
+export interface QueryRoute {
+  query: string[];
+  defaults: Record<string, string>;
+  routes: Record<string, string>; // Query key -> output path
+  fallback: string; // Output path for combinations not in `routes`
+}
+
+/**
+ * Endpoint path -> query routing, for the worker, static hosts and `serve`
+ */
+export type RouteMapFile = Record<string, QueryRoute>;
@@ -0,0 +1,81 @@
+/**
+ * Base info (base/getBaseInfo)
+ */
+export interface BaseInfo {
+  cloud_game_switch: number;
+  guide_info_img: string; // Image URL
+  guide_storage_img: string; // Image URL
+}
+
+/**
+ * Platform tile on the home screen (card/getTopPlatform)
+ */
+export interface TopPlatform {
+  id: number;
+  name: string;
+  icon: string; // Image URL
+  type: number;
+  back_img: string; // Image URL
+}
+
+/**
+ * Community link (game/getGameCircleList)
+ */
+export interface GameCircle {
+  id: number;
+  name: string;
+  icon: string; // Image URL
+  type: number;
+  link_str: string;
+}
+
+/**
+ * Component tab in the simulator settings (simulator/getTabList)
+ */
+export interface SimulatorTab {
+  name: string;
+  type: number;
+  sub_type: number;
+}
+
+/**
+ * Offline user returned by email/login
+ */
+export interface LoginUser {
+  id: number;
+  username: string;
+  nickname: string;
+  mobile: string;
+  avatar: string;
+  token: string;
+  uuid: string;
+  third_platform: string;
+  bio: string;
+  email: string;
+}
+
+/**
+ * Payload of an endpoint that only acknowledges the request
+ */
+export type EmptyEndpointData = never[] | Record<string, never> | null;
+
+/**
+ * Endpoint with a fixed empty payload
+ */
+export interface EmptyEndpoint {
+  route: string; // e.g. "card/getNewsList"
+  data: EmptyEndpointData;
+}
+
+/**
+ * Static endpoint data (data/static_endpoints.json)
+ */
+export interface StaticEndpoints {
+  baseInfo: BaseInfo;
+  topPlatforms: TopPlatform[];
+  gameCircles: GameCircle[];
+  simulatorTabs: SimulatorTab[];
+  loginUser: LoginUser;
+  refreshToken: string;
+  emptyEndpoints: EmptyEndpoint[];
+}
@@ -0,0 +1,21 @@
+/**
+ * Check whether a boolean flag (e.g. `--json`) is present
+ */
+export function hasFlag(args: string[], name: string): boolean {
+  return args.includes(name);
+}
+
+/**
+ * Get the value of a flag given as `--name value` or `--name=value`
+ */
+export function getFlagValue(args: string[], name: string): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === name) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`${name}=`)) {
+      return args[i].slice(name.length + 1);
+    }
+  }
+  return undefined;
+}
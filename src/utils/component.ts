@@ -0,0 +1,31 @@
+import type { Component } from '../types/index.js';
+
+/**
+ * Whether the app should list the component
+ * Deprecated components stay downloadable for existing installs but are no longer offered
+ */
+export function getIsUi(component: Component): 0 | 1 {
+  return component.lifecycle === 'deprecated' ? 0 : 1;
+}
+
+/**
+ * Whether the component is a base package
+ */
+export function getIsBase(component: Component): 0 | 1 {
+  return component.is_base ? 1 : 0;
+}
+
+/**
+ * Type of the base a component builds on
+ * `base` is either a type number or an object with a `type` field; 0 when there is none
+ */
+export function getBaseType(component: Component): number {
+  const base = component.base;
+  if (typeof base === 'number') {
+    return base;
+  }
+  if (base !== null && typeof base === 'object' && typeof (base as { type?: unknown }).type === 'number') {
+    return (base as { type: number }).type;
+  }
+  return 0;
+}
@@ -0,0 +1,81 @@
+import { execFileSync, execSync } from 'child_process';
+
+import type { ComponentRegistry, ContainerAssetInfo, OriginalComponentInfo } from '../registry/registry.js';
+import type { BuildConfig } from '../types/index.js';
+
+/**
+ * Name GitHub gives a release asset uploaded as `fileName`
+ * Each run of characters other than ASCII letters, digits, ".", "-", "_" and "+"
+ * becomes a dot, repeated dots collapse into one, trailing dots are dropped and
+ * a leading dot gets a "default" prefix: `Torchlight II (v2).tzst` -> `Torchlight.II.v2.tzst`
+ */
+export function toGitHubAssetName(fileName: string): string {
+  const name = fileName
+    .replace(/[^A-Za-z0-9._+-]+/g, '.')
+    .replace(/\.{2,}/g, '.')
+    .replace(/\.+$/, '');
+  return name.startsWith('.') ? `default${name}` : name;
+}
+
+/**
+ * Get the list of assets in a GitHub release
+ */
+export function getGitHubReleaseAssets(repo: string, release: string): Set<string> {
+  try {
+    const output = execSync(
+      `gh release view "${release}" --repo "${repo}" --json assets --jq '.assets[].name'`,
+      { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] }
+    );
+    return new Set(output.trim().split('\n').filter(Boolean));
+  } catch {
+    console.warn('   Warning: Could not fetch GitHub release assets (gh CLI not available or not authenticated)');
+    return new Set();
+  }
+}
+
+/**
+ * Check for missing files on GitHub and report them
+ * Covers component files and every container file and sub file
+ * `total` is 0 when the release assets could not be fetched
+ */
+export function checkMissingFiles(
+  registry: ComponentRegistry,
+  config: BuildConfig
+): { missing: OriginalComponentInfo[]; missingContainerAssets: ContainerAssetInfo[]; total: number } {
+  const githubAssets = getGitHubReleaseAssets(config.githubRepo, config.githubRelease);
+
+  if (githubAssets.size === 0) {
+    return { missing: [], missingContainerAssets: [], total: 0 };
+  }
+
+  const allInfo = registry.getAllOriginalInfo();
+  const missing = allInfo.filter((info) => !githubAssets.has(info.githubFileName));
+
+  const containerAssets = registry.getContainerAssets();
+  const missingContainerAssets = containerAssets.filter((asset) => !githubAssets.has(asset.fileName));
+
+  return { missing, missingContainerAssets, total: allInfo.length + containerAssets.length };
+}
+
+/**
+ * Build the `gh release upload` command for a list of local files
+ */
+export function getUploadCommand(config: BuildConfig, files: string[]): string {
+  const fileList = files.map((f) => `"${f}"`).join(' ');
+  return `gh release upload ${config.githubRelease} ${fileList} --repo ${config.githubRepo}`;
+}
+
+/**
+ * Upload local files to the GitHub release, replacing assets of the same name
+ * Returns false when gh fails (not installed, not authenticated, ...)
+ */
+export function uploadToRelease(config: BuildConfig, files: string[]): boolean {
+  try {
+    execFileSync('gh', ['release', 'upload', config.githubRelease, ...files, '--repo', config.githubRepo, '--clobber'], {
+      stdio: 'inherit',
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
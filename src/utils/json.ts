@@ -1,3 +1,10 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+
+import { SchemaValidationError, validateSchema } from './schema.js';
+import type { JsonSchema } from './schema.js';
+
 /**
  * Format JSON with 2-space indentation (no trailing newline)
  * NOTE: We do NOT sort keys (preserve the order as defined in generators)
@@ -12,3 +19,57 @@ export function formatJson(data: unknown): string {
 export function getTimestamp(): string {
   return String(Math.floor(Date.now() / 1000));
 }
+
+/**
+ * Return a copy of an endpoint without its volatile top-level `time` field
+ */
+export function withoutTime(data: unknown): unknown {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return data;
+  }
+  const { time: _time, ...rest } = data as Record<string, unknown>;
+  return rest;
+}
+
+// Repository root (dist/utils/ -> ../../), where the schemas are kept
+const REPO_ROOT = fileURLToPath(new URL('../../', import.meta.url));
+
+/**
+ * Path of a schema kept in the repository, e.g. "data/defaults.schema.json"
+ * Schemas are found by file type, so data files can live anywhere
+ */
+export function getSchemaPath(schema: string): string {
+  return join(REPO_ROOT, schema);
+}
+
+/**
+ * Read and parse a JSON file, naming the file in syntax errors
+ */
+export function readJsonFile(path: string): unknown {
+  const content = readFileSync(path, 'utf-8');
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${path}: invalid JSON (${error instanceof Error ? error.message : error})`);
+  }
+}
+
+/**
+ * Load a JSON data file and validate it against a repository schema (see getSchemaPath)
+ * Throws SchemaValidationError listing every violation
+ */
+export function loadJson<T>(path: string, schema: string): T {
+  const data = readJsonFile(path);
+
+  const schemaPath = getSchemaPath(schema);
+  if (!existsSync(schemaPath)) {
+    throw new Error(`${path}: schema not found (expected ${schemaPath})`);
+  }
+
+  const errors = validateSchema(data, readJsonFile(schemaPath) as JsonSchema);
+  if (errors.length > 0) {
+    throw new SchemaValidationError(path, errors);
+  }
+
+  return data as T;
+}
@@ -0,0 +1,197 @@
+/**
+ * Minimal JSON Schema (draft-07 subset) validator for the data/*.json inputs
+ *
+ * Supported keywords: $ref (local "#/definitions/..."), type, enum, const,
+ * properties, required, additionalProperties, items (schema or tuple),
+ * minItems, maxItems, maxProperties, uniqueItems, minimum, maximum,
+ * minLength, pattern
+ */
+
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  definitions?: Record<string, JsonSchema>;
+  type?: SchemaType | SchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema | JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  maxProperties?: number;
+  uniqueItems?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * A single schema violation
+ */
+export interface SchemaError {
+  path: string; // JSON path, e.g. "$.components[3].file_size"
+  message: string; // e.g. "expected string, got number"
+}
+
+/**
+ * Thrown when a data file does not match its schema
+ */
+export class SchemaValidationError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly errors: SchemaError[]
+  ) {
+    super(
+      `${file} does not match its schema:\n` +
+        errors.map((e) => `  - ${file}: ${e.path}: ${e.message}`).join('\n')
+    );
+    this.name = 'SchemaValidationError';
+  }
+}
+
+function typeOf(value: unknown): SchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as SchemaType;
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const match = /^#\/definitions\/(.+)$/.exec(ref);
+  const schema = match ? root.definitions?.[match[1]] : undefined;
+  if (!schema) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return schema;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  errors: SchemaError[]
+): void {
+  if (schema.$ref) {
+    validateNode(value, resolveRef(root, schema.$ref), root, path, errors);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push({ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push({ path, message: `expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}` });
+  }
+
+  if (schema.enum && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push({
+      path,
+      message: `expected one of ${schema.enum.map((e) => JSON.stringify(e)).join(', ')}, got ${JSON.stringify(value)}`,
+    });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `expected string of at least ${schema.minLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `expected string matching ${schema.pattern}, got ${JSON.stringify(value)}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `expected number >= ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `expected number <= ${schema.maximum}, got ${value}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `expected at least ${schema.minItems} items, got ${value.length}` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, message: `expected at most ${schema.maxItems} items, got ${value.length}` });
+    }
+    if (schema.uniqueItems) {
+      const seen = new Set<string>();
+      value.forEach((item, i) => {
+        const key = JSON.stringify(item);
+        if (seen.has(key)) {
+          errors.push({ path: childPath(path, i), message: `duplicate item ${key}` });
+        }
+        seen.add(key);
+      });
+    }
+    if (Array.isArray(schema.items)) {
+      schema.items.forEach((itemSchema, i) => {
+        if (i < value.length) {
+          validateNode(value[i], itemSchema, root, childPath(path, i), errors);
+        }
+      });
+    } else if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, i) => validateNode(item, itemSchema, root, childPath(path, i), errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record);
+
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+      errors.push({ path, message: `expected at most ${schema.maxProperties} properties, got ${keys.length}` });
+    }
+
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push({ path: childPath(path, key), message: 'required property is missing' });
+      }
+    }
+
+    for (const key of keys) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(record[key], propertySchema, root, childPath(path, key), errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath(path, key), message: 'unknown property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(record[key], schema.additionalProperties, root, childPath(path, key), errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema and return every violation
+ */
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaError[] {
+  const errors: SchemaError[] = [];
+  validateNode(value, schema, schema, '$', errors);
+  return errors;
+}
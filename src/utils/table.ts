@@ -0,0 +1,34 @@
+/**
+ * Format rows as a plain-text table with padded columns
+ */
+export function formatTable(headers: string[], rows: string[][], indent = ''): string {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? '').length))
+  );
+
+  const formatRow = (row: string[]) =>
+    indent + row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ');
+
+  return [
+    formatRow(headers),
+    indent + widths.map((w) => '-'.repeat(w)).join('  '),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * Shorten a value for display in a table cell
+ */
+export function truncate(value: string, max = 48): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+/**
+ * Format rows as a Markdown table
+ */
+export function formatMarkdownTable(headers: string[], rows: string[][]): string {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const formatRow = (row: string[]) => `| ${row.map(escape).join(' | ')} |`;
+
+  return [formatRow(headers), `|${headers.map(() => '---').join('|')}|`, ...rows.map(formatRow)].join('\n');
+}
@@ -0,0 +1,81 @@
+/**
+ * A URL found in a generated endpoint
+ */
+export interface UrlReference {
+  endpoint: string; // Output path, e.g. "simulator/v2/getContainerList"
+  path: string; // JSON path, e.g. "$.data[0].download_url"
+  url: string;
+}
+
+const URL_PATTERN = /^https?:\/\//i;
+
+/**
+ * Move a URL from one base to another; URLs outside `from` are returned unchanged
+ */
+export function retargetUrl(url: string, from: string, to: string): string {
+  return url.startsWith(`${from}/`) ? `${to}${url.slice(from.length)}` : url;
+}
+
+/**
+ * Move every URL under `from` in a JSON value to `to`
+ */
+export function retargetUrls<T>(value: T, from: string, to: string): T {
+  if (typeof value === 'string') {
+    return retargetUrl(value, from, to) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => retargetUrls(item, from, to)) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = retargetUrls(item, from, to);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+/**
+ * Whether a host is an allowed host or one of its subdomains
+ */
+export function isAllowedHost(host: string, allowedHosts: string[]): boolean {
+  const normalized = host.toLowerCase();
+  return allowedHosts.some((allowed) => {
+    const a = allowed.toLowerCase();
+    return normalized === a || normalized.endsWith(`.${a}`);
+  });
+}
+
+function collectUrls(value: unknown, endpoint: string, path: string, found: UrlReference[]): void {
+  if (typeof value === 'string') {
+    if (URL_PATTERN.test(value)) {
+      found.push({ endpoint, path, url: value });
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => collectUrls(item, endpoint, `${path}[${i}]`, found));
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      collectUrls(item, endpoint, `${path}.${key}`, found);
+    }
+  }
+}
+
+/**
+ * Find every URL in the outputs whose host is not allowed
+ * Unparseable URLs are reported too
+ */
+export function findDisallowedUrls(outputs: Map<string, unknown>, allowedHosts: string[]): UrlReference[] {
+  const found: UrlReference[] = [];
+  for (const [endpoint, data] of outputs) {
+    collectUrls(data, endpoint, '$', found);
+  }
+
+  return found.filter((reference) => {
+    try {
+      return !isAllowedHost(new URL(reference.url).host, allowedHosts);
+    } catch {
+      return true;
+    }
+  });
+}